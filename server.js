@@ -1,19 +1,30 @@
-import express from 'express'
-import path from 'path'
-import { fileURLToPath } from 'url'
-
-const __filename = fileURLToPath(import.meta.url)
-const __dirname = path.dirname(__filename)
-
-const app = express()
-const port = process.env.PORT || 3000
-
-app.use(express.static(path.join(__dirname, 'dist')))
-
-app.get('*', (req, res) => {
-  res.sendFile(path.join(__dirname, 'dist', 'index.html'))
-})
-
-app.listen(port, () => {
-  console.log(`Server running on port ${port}`)
-})
+import express from 'express'
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+// The API is compiled from TypeScript by `npm run build:node`; say so rather than crash on a missing module.
+const apiPath = path.join(__dirname, 'dist-node', 'api.js')
+if (!fs.existsSync(apiPath)) {
+  console.error("dist-node/api.js was not found. Run 'npm run build' (or 'npm run build:node' for the API only) before 'npm start'.")
+  process.exit(1)
+}
+const { createApiRouter } = await import(pathToFileURL(apiPath).href)
+
+const app = express()
+const port = process.env.PORT || 3000
+
+app.use('/api', createApiRouter())
+
+app.use(express.static(path.join(__dirname, 'dist')))
+
+app.get('*', (req, res) => {
+  res.sendFile(path.join(__dirname, 'dist', 'index.html'))
+})
+
+app.listen(port, () => {
+  console.log(`Server running on port ${port}`)
+})
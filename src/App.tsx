@@ -1,18 +1,55 @@
 
-import React, { useState, useCallback } from 'react';
-import { Gstr2bType, ReconciliationResult } from './types';
-import { reconcileData, exportToExcel } from './services/reconciliationService';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import { Gstr2bType, ReconciliationResult, ReconciliationOptions, ReconciliationProgress, RunMovement, StoredRun } from './types';
+import { exportToExcel, sheetNameForType, keyFieldsForType, DEFAULT_RECONCILIATION_OPTIONS } from './services/reconciliationService';
+import { exportFullWorkbook } from './services/workbookExport';
+import { overrideLogRows } from './services/manualOverrides';
+import { startReconciliation, ReconciliationCancelledError, ReconciliationRun } from './services/reconciliationRunner';
+import { isJsonFile } from './services/gstr2bJsonParser';
+import { compareRuns, movementRows } from './services/runComparison';
 import { FileUploadCard } from './components/FileUploadCard';
 import { ResultsDisplay } from './components/ResultsDisplay';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { RunHistoryPanel } from './components/RunHistoryPanel';
+import { RunComparison } from './components/RunComparison';
+import { useColumnMapping } from './hooks/useColumnMapping';
+import { useRunHistory } from './hooks/useRunHistory';
 import { Spinner, LogoIcon } from './components/Icons';
 
+const SPREADSHEET_FORMATS = '.xlsx,.xls,.ods,.csv,.tsv,.txt';
+
+// Report types offered for a GSTR-2B JSON file.
+const JSON_REPORT_TYPES: Gstr2bType[] = ['B2B', 'All', 'IMPG'];
+
 const App: React.FC = () => {
     const [booksFile, setBooksFile] = useState<File | null>(null);
     const [gstr2bFile, setGstr2bFile] = useState<File | null>(null);
     const [gstr2bType, setGstr2bType] = useState<Gstr2bType>('B2B');
+    const [options, setOptions] = useState<ReconciliationOptions>(DEFAULT_RECONCILIATION_OPTIONS);
     const [reconciliationResult, setReconciliationResult] = useState<ReconciliationResult | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [progress, setProgress] = useState<ReconciliationProgress | null>(null);
+    const runRef = useRef<ReconciliationRun | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const history = useRunHistory();
+    const [comparison, setComparison] = useState<{ run: StoredRun; result: ReconciliationResult } | null>(null);
+
+    const gstr2bIsJson = gstr2bFile ? isJsonFile(gstr2bFile) : false;
+    const gstr2bSheetName = sheetNameForType(gstr2bType);
+    const keyFields = useMemo(() => keyFieldsForType(gstr2bType), [gstr2bType]);
+
+    // The portal JSON has fixed field names, so only spreadsheets go through column mapping. An
+    // All sections run reads several sheets of the portal workbook by their standard headers.
+    const booksColumns = useColumnMapping(booksFile, undefined, 'Purchase Report', keyFields);
+    const gstr2bColumns = useColumnMapping(gstr2bIsJson || gstr2bType === 'All' ? null : gstr2bFile, gstr2bSheetName, 'GSTR-2B Report', keyFields);
+    const mappingIncomplete = [booksColumns, gstr2bColumns].some(c => c.detected && keyFields.some(field => !c.mapping[field]));
+
+    // The JSON offers fewer report types than a spreadsheet; one it does not offer falls back to B2B.
+    const handleGstr2bFileChange = useCallback((file: File | null) => {
+        setGstr2bFile(file);
+        if (file && isJsonFile(file)) setGstr2bType(type => JSON_REPORT_TYPES.includes(type) ? type : 'B2B');
+    }, []);
 
     const handleReconcile = useCallback(async () => {
         if (!booksFile || !gstr2bFile) {
@@ -23,26 +60,87 @@ const App: React.FC = () => {
         setIsLoading(true);
         setError(null);
         setReconciliationResult(null);
+        setProgress(null);
+        setComparison(null);
+        history.reset();
+
+        const run = startReconciliation({
+            booksFile,
+            gstr2bFile,
+            gstr2bType,
+            options,
+            columnMappings: {
+                books: booksColumns.detected ? booksColumns.mapping : undefined,
+                gstr2b: gstr2bColumns.detected ? gstr2bColumns.mapping : undefined,
+            },
+        }, setProgress);
+        runRef.current = run;
 
         try {
-            const result = await reconcileData(booksFile, gstr2bFile, gstr2bType);
+            const result = await run.result;
             setReconciliationResult(result);
+            // Storing the run must not hold up showing the result.
+            history.record({ booksFile, gstr2bFile }, gstr2bType, result);
         } catch (err) {
-            console.error(err);
-            setError(err instanceof Error ? err.message : 'An unknown error occurred during reconciliation.');
+            if (!(err instanceof ReconciliationCancelledError)) {
+                console.error(err);
+                setError(err instanceof Error ? err.message : 'An unknown error occurred during reconciliation.');
+            }
         } finally {
+            runRef.current = null;
             setIsLoading(false);
+            setProgress(null);
         }
-    }, [booksFile, gstr2bFile, gstr2bType]);
+    }, [booksFile, gstr2bFile, gstr2bType, options, booksColumns.detected, booksColumns.mapping, gstr2bColumns.detected, gstr2bColumns.mapping, history.reset, history.record]);
+
+    const handleCancel = () => runRef.current?.cancel();
 
     const handleDownload = (data: any[], fileName: string) => {
         if (data.length === 0) {
             alert('No data available to download for this category.');
             return;
         }
-        exportToExcel(data, fileName);
+        exportToExcel(data, fileName, reconciliationResult ? overrideLogRows(reconciliationResult.overrides) : []);
+    };
+
+    const handleDownloadWorkbook = () => {
+        if (reconciliationResult) exportFullWorkbook(reconciliationResult, 'GST_Reconciliation_Workbook');
+    };
+
+    const handleResultChange = (result: ReconciliationResult) => {
+        setReconciliationResult(result);
+        history.update(result);
+    };
+
+    const handleOpenRun = async (id: string) => {
+        const result = await history.open(id);
+        if (result) {
+            setReconciliationResult(result);
+            setComparison(null);
+            setError(null);
+        }
+    };
+
+    const handleCompareRun = async (id: string) => {
+        const run = history.runs.find(r => r.id === id);
+        const result = await history.load(id);
+        if (run && result) setComparison({ run, result });
     };
 
+    const handleDeleteRun = (id: string) => {
+        if (!window.confirm('Delete this run from the history?')) return;
+        if (comparison?.run.id === id) setComparison(null);
+        history.remove(id);
+    };
+
+    // Recomputed on every change so that manual overrides show up in the comparison.
+    const movements = useMemo(
+        () => comparison && reconciliationResult ? compareRuns(comparison.result, reconciliationResult) : [],
+        [comparison, reconciliationResult]
+    );
+
+    const handleDownloadMovements = (rows: RunMovement[]) => exportToExcel(movementRows(rows), 'Run_Comparison_Report');
+
     return (
         <div className="min-h-screen bg-gray-50 text-gray-800 font-sans">
             <header className="bg-gradient-to-r from-blue-600 to-indigo-700 text-white shadow-md">
@@ -64,33 +162,92 @@ const App: React.FC = () => {
                                 title="Purchase Report (Books)"
                                 onFileChange={setBooksFile}
                                 file={booksFile}
-                                acceptedFormats=".xlsx"
+                                acceptedFormats={SPREADSHEET_FORMATS}
                             />
                             <FileUploadCard
                                 title="GSTR-2B Report"
-                                onFileChange={setGstr2bFile}
+                                onFileChange={handleGstr2bFileChange}
                                 file={gstr2bFile}
-                                acceptedFormats=".xlsx"
+                                acceptedFormats={`${SPREADSHEET_FORMATS},.json`}
                             >
-                                <div className="mt-4">
-                                    <label htmlFor="gstr2bType" className="block text-sm font-medium text-gray-600 mb-1">Report Type</label>
-                                    <select
-                                        id="gstr2bType"
-                                        value={gstr2bType}
-                                        onChange={(e) => setGstr2bType(e.target.value as Gstr2bType)}
-                                        className="w-full bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
-                                    >
-                                        <option value="B2B">B2B Invoices</option>
-                                        <option value="CDNR">Credit/Debit Notes (CDNR)</option>
-                                        <option value="Other">Others (use first sheet)</option>
-                                    </select>
-                                </div>
+                                {gstr2bIsJson ? (
+                                    <div className="mt-4">
+                                        <p className="text-sm text-gray-600 mb-2">
+                                            GSTR-2B JSON detected: invoices and notes (B2B, CDNR and their amendments) or bills of entry (IMPG, IMPGSEZ) will be read.
+                                        </p>
+                                        <label htmlFor="gstr2bJsonType" className="block text-sm font-medium text-gray-600 mb-1">Reconcile</label>
+                                        <select
+                                            id="gstr2bJsonType"
+                                            value={gstr2bType}
+                                            onChange={(e) => setGstr2bType(e.target.value as Gstr2bType)}
+                                            className="w-full bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
+                                        >
+                                            <option value="B2B">Invoices and notes</option>
+                                            <option value="All">Invoices and notes, section by section</option>
+                                            <option value="IMPG">Import of Goods (bills of entry)</option>
+                                        </select>
+                                    </div>
+                                ) : (
+                                    <div className="mt-4">
+                                        <label htmlFor="gstr2bType" className="block text-sm font-medium text-gray-600 mb-1">Report Type</label>
+                                        <select
+                                            id="gstr2bType"
+                                            value={gstr2bType}
+                                            onChange={(e) => setGstr2bType(e.target.value as Gstr2bType)}
+                                            className="w-full bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
+                                        >
+                                            <option value="B2B">B2B Invoices</option>
+                                            <option value="CDNR">Credit/Debit Notes (CDNR)</option>
+                                            <option value="IMPG">Import of Goods (IMPG / IMPGSEZ)</option>
+                                            <option value="All">All sections (B2B and CDNR in one run)</option>
+                                            <option value="Other">Others (use first sheet)</option>
+                                        </select>
+                                    </div>
+                                )}
                             </FileUploadCard>
                         </div>
+                        {(booksColumns.detected || gstr2bColumns.detected || booksColumns.error || gstr2bColumns.error) && (
+                            <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                {[{ title: 'Purchase Report', columns: booksColumns }, { title: 'GSTR-2B Report', columns: gstr2bColumns }].map(({ title, columns }) => (
+                                    <div key={title}>
+                                        {columns.error && <p className="text-sm text-red-600">{columns.error}</p>}
+                                        {columns.detected && (
+                                            <ColumnMappingWizard
+                                                title={title}
+                                                detected={columns.detected}
+                                                mapping={columns.mapping}
+                                                keyFields={keyFields}
+                                                appliedProfile={columns.appliedProfile}
+                                                onMappingChange={columns.setMapping}
+                                                onProfileApplied={columns.applyProfile}
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div className="mt-6">
+                            <SettingsPanel
+                                options={options}
+                                onChange={setOptions}
+                                onReset={() => setOptions(DEFAULT_RECONCILIATION_OPTIONS)}
+                            />
+                        </div>
+                        <div className="mt-4">
+                            <RunHistoryPanel
+                                runs={history.runs}
+                                currentRunId={history.currentRunId}
+                                error={history.error}
+                                canCompare={reconciliationResult !== null && !isLoading}
+                                onOpen={handleOpenRun}
+                                onCompare={handleCompareRun}
+                                onDelete={handleDeleteRun}
+                            />
+                        </div>
                         <div className="mt-8 text-center">
                             <button
                                 onClick={handleReconcile}
-                                disabled={!booksFile || !gstr2bFile || isLoading}
+                                disabled={!booksFile || !gstr2bFile || isLoading || mappingIncomplete}
                                 className="inline-flex items-center justify-center px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all duration-300"
                             >
                                 {isLoading ? (
@@ -102,6 +259,23 @@ const App: React.FC = () => {
                                     'Reconcile Now'
                                 )}
                             </button>
+                            {isLoading && (
+                                <div className="mt-4 max-w-md mx-auto">
+                                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                                        <span>{progress ? progress.label : 'Starting...'}</span>
+                                        <span>{progress ? progress.percent : 0}%</span>
+                                    </div>
+                                    <div className="w-full bg-gray-200 rounded-full h-2">
+                                        <div
+                                            className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
+                                            style={{ width: `${progress ? progress.percent : 0}%` }}
+                                        />
+                                    </div>
+                                    <button onClick={handleCancel} className="mt-3 text-sm text-red-600 hover:text-red-800 font-semibold">
+                                        Cancel
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     </div>
 
@@ -112,11 +286,22 @@ const App: React.FC = () => {
                         </div>
                     )}
                     
+                    {comparison && reconciliationResult && (
+                        <RunComparison
+                            previousRun={comparison.run}
+                            movements={movements}
+                            onDownload={handleDownloadMovements}
+                            onClose={() => setComparison(null)}
+                        />
+                    )}
+
                     {reconciliationResult && (
                          <ResultsDisplay
                             result={reconciliationResult}
                             onDownload={handleDownload}
-                            gstr2bType={gstr2bType}
+                            onDownloadWorkbook={handleDownloadWorkbook}
+                            onResultChange={handleResultChange}
+                            gstr2bType={reconciliationResult.source.gstr2bType}
                         />
                     )}
                 </div>
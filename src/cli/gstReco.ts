@@ -0,0 +1,195 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { Gstr2bType, ReconciliationOptions, ReconciliationResult, ReconciliationStage } from '../types';
+import { reconcileData, DEFAULT_RECONCILIATION_OPTIONS } from '../services/reconciliationService';
+import { buildFullWorkbook } from '../services/workbookExport';
+import { validateGstin } from '../services/gstinValidator';
+
+// --- Configuration ---
+
+const USAGE = `Usage: gst-reco --books <file> --gstr2b <file> [options]
+
+Reconciles a purchase register against GSTR-2B and writes every result category.
+
+Options:
+  --books <file>                 Purchase register (.xlsx, .xls, .ods, .csv or .tsv)
+  --gstr2b <file>                GSTR-2B report (a spreadsheet as above, or the portal .json)
+  --type <B2B|CDNR|IMPG|All|Other>
+                                 GSTR-2B sheet to read from a workbook; IMPG reconciles bills
+                                 of entry and All the B2B and CDNR sections together, also from
+                                 the .json (default: B2B)
+  --out <file>                   Output file (default: GST_Reconciliation.xlsx)
+  --format <xlsx|json>           Output format (default: from the --out extension)
+  --tolerance <amount>           Absolute tolerance in rupees for every amount head (default: 2)
+  --percentage-tolerance <pct>   Tolerance as a percentage of the book amount (default: 0)
+  --ignore-legal-name            Do not require the same legal name in the partial match pass
+  --no-consolidate               Keep multi-line invoices as separate records
+  --exclude-identical-copies     Leave lines identical to another line of the invoice out of its totals
+  --recipient-gstin <gstin>      Our GSTIN, to check IGST against CGST/SGST (default: from the GSTR-2B JSON)
+  --max-unmatched <count>        Exit with code 2 when more records than this are unmatched
+  -h, --help                     Show this help
+
+Exit codes: 0 success, 1 error, 2 unmatched records above --max-unmatched.`;
+
+const GSTR2B_TYPES: Gstr2bType[] = ['B2B', 'CDNR', 'IMPG', 'All', 'Other'];
+
+const EXIT_ERROR = 1;
+const EXIT_UNMATCHED_ABOVE_THRESHOLD = 2;
+
+// --- Helper Functions ---
+
+const toNonNegativeNumber = (value: string, option: string): number => {
+    const parsed = Number(value);
+    if (value.trim() === '' || isNaN(parsed) || parsed < 0) {
+        throw new Error(`--${option} must be a non-negative number, got '${value}'.`);
+    }
+    return parsed;
+};
+
+const toGstin = (value: string, option: string): string => {
+    const check = validateGstin(value);
+    if (!check.valid) throw new Error(`--${option} must be a valid GSTIN, got '${value}' (${check.problem}).`);
+    return check.gstin;
+};
+
+const loadFile = async (filePath: string): Promise<File> => {
+    try {
+        return new File([await readFile(filePath)], path.basename(filePath));
+    } catch (error) {
+        throw new Error(`Cannot read '${filePath}': ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+const writeResult = async (result: ReconciliationResult, outPath: string, format: 'xlsx' | 'json') => {
+    if (format === 'json') {
+        await writeFile(outPath, JSON.stringify(result, null, 2));
+    } else {
+        await buildFullWorkbook(result).xlsx.writeFile(outPath);
+    }
+};
+
+const printSummary = (result: ReconciliationResult) => {
+    const { summary } = result;
+    const lines: [string, number][] = [
+        ['In Books', summary.totalInBooks],
+        ['In GSTR-2B', summary.totalInGstr2b],
+        ['Matched', summary.matched],
+        ['Matched - different period', summary.matchedDifferentPeriod],
+        ['Value mismatch', summary.valueMismatch],
+        ['Tax head mismatch', summary.taxHeadMismatch],
+        ['Cess mismatch', summary.cessMismatch],
+        ['Matched (normalized no.)', summary.normalizedMatched],
+        ['Partially matched', summary.partiallyMatched],
+        ['Group matched (groups)', summary.groupMatched],
+        ['Only in Books', summary.onlyInBooks],
+        ['Only in GSTR-2B', summary.onlyInGstr2b],
+        ['Imports matched', summary.imports.matched],
+        ['Imports mismatched', summary.imports.mismatched],
+        ['Imports only in Books', summary.imports.onlyInBooks],
+        ['Imports only in GSTR-2B', summary.imports.onlyInGstr2b],
+    ];
+    lines.forEach(([label, value]) => console.log(`${label.padEnd(28)}${value}`));
+
+    console.log(`${'ITC not available'.padEnd(28)}${summary.itcNotAvailable}`);
+    console.log(`${'Reverse charge (RCM)'.padEnd(28)}${summary.reverseCharge}`);
+    console.log(`${'Amended in GSTR-2B'.padEnd(28)}${summary.amendedInGstr2b}`);
+    console.log(`${'Suspected duplicate lines'.padEnd(28)}${summary.suspectedDuplicates}`);
+    console.log(`${'GSTIN suggestions'.padEnd(28)}${summary.gstinSuggestions}`);
+    console.log(`${'Preflight issues'.padEnd(28)}${result.preflight.length}`);
+    console.log(`${'ITC claimable (₹)'.padEnd(28)}${summary.itc.total.claimable.toFixed(2)}`);
+    console.log(`${'ITC blocked (₹)'.padEnd(28)}${summary.itc.total.blocked.toFixed(2)}`);
+
+    summary.sections?.forEach(subtotal => {
+        console.log(`\n${subtotal.section}`);
+        console.log(`${'  Matched'.padEnd(28)}${subtotal.matched}`);
+        console.log(`${'  Mismatched'.padEnd(28)}${subtotal.mismatched}`);
+        console.log(`${'  Partially matched'.padEnd(28)}${subtotal.partiallyMatched}`);
+        console.log(`${'  Only in Books'.padEnd(28)}${subtotal.onlyInBooks}`);
+        console.log(`${'  Only in GSTR-2B'.padEnd(28)}${subtotal.onlyInGstr2b}`);
+        console.log(`${'  ITC claimable (₹)'.padEnd(28)}${subtotal.itc.claimable.toFixed(2)}`);
+    });
+};
+
+// --- Main ---
+
+const main = async (): Promise<number> => {
+    const { values } = parseArgs({
+        options: {
+            books: { type: 'string' },
+            gstr2b: { type: 'string' },
+            type: { type: 'string', default: 'B2B' },
+            out: { type: 'string', default: 'GST_Reconciliation.xlsx' },
+            format: { type: 'string' },
+            tolerance: { type: 'string' },
+            'percentage-tolerance': { type: 'string' },
+            'ignore-legal-name': { type: 'boolean', default: false },
+            'no-consolidate': { type: 'boolean', default: false },
+            'exclude-identical-copies': { type: 'boolean', default: false },
+            'recipient-gstin': { type: 'string' },
+            'max-unmatched': { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!values.books || !values.gstr2b) throw new Error('Both --books and --gstr2b are required. Run with --help for usage.');
+
+    const gstr2bType = values.type as Gstr2bType;
+    if (!GSTR2B_TYPES.includes(gstr2bType)) throw new Error(`--type must be one of ${GSTR2B_TYPES.join(', ')}, got '${values.type}'.`);
+
+    const format = values.format ?? (path.extname(values.out).toLowerCase() === '.json' ? 'json' : 'xlsx');
+    if (format !== 'xlsx' && format !== 'json') throw new Error(`--format must be xlsx or json, got '${format}'.`);
+
+    const tolerance = values.tolerance !== undefined ? toNonNegativeNumber(values.tolerance, 'tolerance') : undefined;
+    const options: ReconciliationOptions = {
+        ...DEFAULT_RECONCILIATION_OPTIONS,
+        tolerance: tolerance !== undefined
+            ? { taxableValue: tolerance, integratedTax: tolerance, centralTax: tolerance, stateTax: tolerance, cess: tolerance }
+            : DEFAULT_RECONCILIATION_OPTIONS.tolerance,
+        percentageTolerance: values['percentage-tolerance'] !== undefined
+            ? toNonNegativeNumber(values['percentage-tolerance'], 'percentage-tolerance')
+            : DEFAULT_RECONCILIATION_OPTIONS.percentageTolerance,
+        requireLegalNameMatch: !values['ignore-legal-name'],
+        consolidateInvoices: !values['no-consolidate'],
+        excludeIdenticalCopies: values['exclude-identical-copies'],
+        recipientGstin: values['recipient-gstin'] !== undefined
+            ? toGstin(values['recipient-gstin'], 'recipient-gstin')
+            : DEFAULT_RECONCILIATION_OPTIONS.recipientGstin,
+    };
+    const maxUnmatched = values['max-unmatched'] !== undefined ? toNonNegativeNumber(values['max-unmatched'], 'max-unmatched') : undefined;
+
+    const [booksFile, gstr2bFile] = await Promise.all([loadFile(values.books), loadFile(values.gstr2b)]);
+
+    // Progress goes to stderr so that stdout carries only the summary.
+    let lastStage: ReconciliationStage | null = null;
+    const result = await reconcileData(booksFile, gstr2bFile, gstr2bType, options, {}, progress => {
+        if (progress.stage !== lastStage) {
+            lastStage = progress.stage;
+            console.error(`${progress.label}...`);
+        }
+    });
+
+    await writeResult(result, values.out, format);
+    printSummary(result);
+    console.error(`Report written to ${values.out}`);
+
+    const { summary } = result;
+    const unmatched = summary.onlyInBooks + summary.onlyInGstr2b + summary.imports.onlyInBooks + summary.imports.onlyInGstr2b;
+    if (maxUnmatched !== undefined && unmatched > maxUnmatched) {
+        console.error(`${unmatched} unmatched records exceed the threshold of ${maxUnmatched}.`);
+        return EXIT_UNMATCHED_ABOVE_THRESHOLD;
+    }
+    return 0;
+};
+
+main().then(
+    code => { process.exitCode = code; },
+    error => {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exitCode = EXIT_ERROR;
+    }
+);
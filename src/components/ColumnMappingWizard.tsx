@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ColumnField, ColumnMapping, ColumnProfile, DetectedColumns } from '../types';
+import { COLUMN_FIELDS } from '../services/reconciliationService';
+import { loadProfiles, saveProfile, deleteProfile } from '../services/columnProfiles';
+
+interface ColumnMappingWizardProps {
+    title: string;
+    detected: DetectedColumns;
+    mapping: ColumnMapping;
+    /** Fields the run keys records on, which must be assigned. */
+    keyFields: ColumnField[];
+    appliedProfile: string | null;
+    onMappingChange: (mapping: ColumnMapping) => void;
+    onProfileApplied: (name: string | null, mapping: ColumnMapping) => void;
+}
+
+const selectClass = "w-full bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2";
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ title, detected, mapping, keyFields, appliedProfile, onMappingChange, onProfileApplied }) => {
+    const [profiles, setProfiles] = useState<ColumnProfile[]>(() => loadProfiles());
+    const [profileName, setProfileName] = useState('');
+
+    const missingRequired = COLUMN_FIELDS.filter(f => keyFields.includes(f.field) && !mapping[f.field]);
+
+    const handleSave = () => {
+        if (!profileName.trim()) return;
+        setProfiles(saveProfile(profileName, detected.headers, mapping));
+        onProfileApplied(profileName.trim(), mapping);
+        setProfileName('');
+    };
+
+    const handleDelete = (name: string) => {
+        setProfiles(deleteProfile(name));
+        if (appliedProfile === name) onProfileApplied(null, mapping);
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h3 className="text-base font-semibold text-gray-700">{title}: Column Mapping</h3>
+                <span className="text-xs text-gray-500">
+                    Sheet '{detected.sheetName}', header row {detected.headerRowNumber}
+                    {appliedProfile && <> · profile <span className="font-semibold text-indigo-600">{appliedProfile}</span> applied</>}
+                </span>
+            </div>
+
+            {!detected.recognised && (
+                <p className="text-sm text-yellow-700 bg-yellow-50 rounded-md p-2">
+                    The headers were not recognised automatically. Please assign at least the {COLUMN_FIELDS.filter(f => keyFields.includes(f.field)).map(f => f.label).join(' and ')} columns.
+                </p>
+            )}
+
+            <div className="flex flex-wrap gap-1">
+                {detected.headers.map(header => (
+                    <span key={header} className="text-xs bg-gray-100 text-gray-700 rounded px-2 py-0.5">{header}</span>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {COLUMN_FIELDS.map(({ field, label }) => (
+                    <div key={field}>
+                        <label className="block text-xs text-gray-500 mb-1">
+                            {label}{keyFields.includes(field) && <span className="text-red-500"> *</span>}
+                        </label>
+                        <select
+                            value={mapping[field] ?? ''}
+                            onChange={(e) => onMappingChange({ ...mapping, [field]: e.target.value })}
+                            className={selectClass}
+                        >
+                            <option value="">— Not present —</option>
+                            {detected.headers.map(header => (
+                                <option key={header} value={header}>{header}</option>
+                            ))}
+                        </select>
+                    </div>
+                ))}
+            </div>
+
+            {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600">Required: {missingRequired.map(f => f.label).join(', ')}</p>
+            )}
+
+            <div className="flex flex-wrap items-end gap-3 border-t pt-3">
+                <div className="flex-1 min-w-[12rem]">
+                    <label className="block text-xs text-gray-500 mb-1">Save this mapping as a profile</label>
+                    <input
+                        type="text"
+                        value={profileName}
+                        onChange={(e) => setProfileName(e.target.value)}
+                        placeholder="e.g. Tally purchase register"
+                        className={selectClass}
+                    />
+                </div>
+                <button
+                    onClick={handleSave}
+                    disabled={!profileName.trim()}
+                    className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    Save Profile
+                </button>
+            </div>
+
+            {profiles.length > 0 && (
+                <div className="text-sm space-y-1">
+                    <p className="text-xs text-gray-500">Saved profiles</p>
+                    {profiles.map(profile => (
+                        <div key={profile.name} className="flex items-center justify-between bg-gray-50 rounded px-2 py-1">
+                            <span className="text-gray-700">{profile.name}</span>
+                            <span className="space-x-3">
+                                <button onClick={() => onProfileApplied(profile.name, profile.mapping)} className="text-xs text-indigo-600 hover:text-indigo-800 font-semibold">
+                                    Apply
+                                </button>
+                                <button onClick={() => handleDelete(profile.name)} className="text-xs text-red-600 hover:text-red-800 font-semibold">
+                                    Delete
+                                </button>
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
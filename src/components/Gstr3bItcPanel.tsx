@@ -0,0 +1,150 @@
+import React, { useState, useMemo } from 'react';
+import { Gstr3bPolicy, Gstr3bRow, ItcAmountBasis, ItcTreatment, ReconciliationRecord, ReconciliationResult, TaxHeadAmounts } from '../types';
+import { DEFAULT_GSTR3B_POLICY, POLICY_BUCKETS, computeGstr3bItc, contributionRows } from '../services/gstr3bItc';
+
+interface Gstr3bItcPanelProps {
+    result: ReconciliationResult;
+    onDownload: (data: ReconciliationRecord[], fileName: string) => void;
+}
+
+// Long drill-down lists are cut off on screen; the download has every invoice.
+const MAX_SHOWN = 100;
+
+const TREATMENTS: { value: ItcTreatment; label: string }[] = [
+    { value: 'claim', label: 'Claim in 4(A)' },
+    { value: 'claimAndReverse', label: 'Claim in 4(A), reverse in 4(B)(2)' },
+    { value: 'defer', label: 'Defer' },
+];
+
+const AMOUNT_BASES: { value: ItcAmountBasis; label: string }[] = [
+    { value: 'lower', label: 'Lower of books and GSTR-2B' },
+    { value: 'gstr2b', label: 'GSTR-2B' },
+    { value: 'books', label: 'Books' },
+];
+
+const HEADS: { key: keyof TaxHeadAmounts; label: string }[] = [
+    { key: 'integratedTax', label: 'IGST' },
+    { key: 'centralTax', label: 'CGST' },
+    { key: 'stateTax', label: 'SGST/UTGST' },
+    { key: 'cess', label: 'Cess' },
+];
+
+const selectClass = "w-full bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2";
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const Gstr3bItcPanel: React.FC<Gstr3bItcPanelProps> = ({ result, onDownload }) => {
+    const [policy, setPolicy] = useState<Gstr3bPolicy>(DEFAULT_GSTR3B_POLICY);
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    const computation = useMemo(() => computeGstr3bItc(result, policy), [result, policy]);
+    const rows: (Omit<Gstr3bRow, 'id'> & { id: string })[] = [...computation.rows, { id: 'deferred', ...computation.deferred }];
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-700 border-b pb-3 mb-4">GSTR-3B Table 4 (Suggested)</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-6">
+                {POLICY_BUCKETS.map(({ bucket, label }) => (
+                    <div key={bucket}>
+                        <label htmlFor={`policy-${bucket}`} className="block text-xs text-gray-500 mb-1">{label}</label>
+                        <select
+                            id={`policy-${bucket}`}
+                            value={policy[bucket]}
+                            onChange={(e) => setPolicy({ ...policy, [bucket]: e.target.value as ItcTreatment })}
+                            className={selectClass}
+                        >
+                            {TREATMENTS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                    </div>
+                ))}
+                <div>
+                    <label htmlFor="policy-amountBasis" className="block text-xs text-gray-500 mb-1">Amount claimed for pairs</label>
+                    <select
+                        id="policy-amountBasis"
+                        value={policy.amountBasis}
+                        onChange={(e) => setPolicy({ ...policy, amountBasis: e.target.value as ItcAmountBasis })}
+                        className={selectClass}
+                    >
+                        {AMOUNT_BASES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-100">
+                        <tr>
+                            <th className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Details</th>
+                            {HEADS.map(({ key, label }) => (
+                                <th key={key} className="px-4 py-2 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">{label} (₹)</th>
+                            ))}
+                            <th className="px-4 py-2 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">Invoices</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {rows.map(row => (
+                            <React.Fragment key={row.id}>
+                                <tr
+                                    onClick={() => row.contributions.length > 0 && setExpanded(expanded === row.id ? null : row.id)}
+                                    className={`${row.contributions.length > 0 ? 'cursor-pointer hover:bg-gray-50' : ''} ${row.id === '4C' ? 'font-semibold bg-indigo-50' : ''} ${row.id === 'deferred' ? 'text-gray-500 italic' : ''}`}
+                                >
+                                    <td className="px-4 py-2 text-gray-700">
+                                        {row.contributions.length > 0 && <span className="mr-1 text-xs">{expanded === row.id ? '▼' : '▶'}</span>}
+                                        {row.label}
+                                    </td>
+                                    {HEADS.map(({ key }) => (
+                                        <td key={key} className="px-4 py-2 text-right whitespace-nowrap">{formatAmount(row.amounts[key])}</td>
+                                    ))}
+                                    <td className="px-4 py-2 text-right">{row.id === '4C' ? '' : row.contributions.length}</td>
+                                </tr>
+                                {expanded === row.id && (
+                                    <tr>
+                                        <td colSpan={HEADS.length + 2} className="px-4 py-3 bg-gray-50">
+                                            <div className="flex justify-end mb-2">
+                                                <button
+                                                    onClick={() => onDownload(contributionRows(row.contributions), `GSTR3B_${row.id}_Invoices`)}
+                                                    className="text-xs text-indigo-600 hover:text-indigo-800 font-semibold"
+                                                >
+                                                    Download these invoices
+                                                </button>
+                                            </div>
+                                            <table className="min-w-full text-xs">
+                                                <thead>
+                                                    <tr className="text-gray-500">
+                                                        <th className="px-2 py-1 text-left">GSTIN</th>
+                                                        <th className="px-2 py-1 text-left">Invoice</th>
+                                                        <th className="px-2 py-1 text-left">Status</th>
+                                                        {HEADS.map(({ key, label }) => <th key={key} className="px-2 py-1 text-right">{label}</th>)}
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {row.contributions.slice(0, MAX_SHOWN).map((contribution, index) => (
+                                                        <tr key={index} className="border-t border-gray-200">
+                                                            <td className="px-2 py-1 whitespace-nowrap">{contribution.gstin}</td>
+                                                            <td className="px-2 py-1">{contribution.invoiceNumber}</td>
+                                                            <td className="px-2 py-1 whitespace-nowrap">{contribution.status}</td>
+                                                            {HEADS.map(({ key }) => (
+                                                                <td key={key} className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(contribution.amounts[key])}</td>
+                                                            ))}
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                            {row.contributions.length > MAX_SHOWN && (
+                                                <p className="text-xs text-gray-400 mt-2">Showing {MAX_SHOWN} of {row.contributions.length}; download to see all.</p>
+                                            )}
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+                Suggested figures only. Import of services, 4(B)(1) reversals and 4(D)(1) reclaims are not derived from the reconciliation and must be added separately.
+            </p>
+        </div>
+    );
+};
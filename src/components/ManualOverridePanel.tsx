@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { ReconciliationResult, ReconciliationRecord, ColumnMapping } from '../types';
+import { PAIRED_CATEGORIES, ONLY_IN_BOOKS_CATEGORIES, ONLY_IN_GSTR2B_CATEGORIES, GSTR2B_PREFIX } from '../services/reconciliationService';
+import { applyManualMatch, applyManualUnmatch } from '../services/manualOverrides';
+
+interface ManualOverridePanelProps {
+    result: ReconciliationResult;
+    onResultChange: (result: ReconciliationResult) => void;
+}
+
+// Long candidate lists are cut off; the search box narrows them down.
+const MAX_LISTED = 50;
+
+const inputClass = "w-full bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2";
+const buttonClass = "px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed";
+
+/** One-line description of a record: GSTIN, invoice number and taxable value. */
+const describe = (record: ReconciliationRecord, columns: ColumnMapping, prefix = ''): string => {
+    const value = (header: string | undefined) => header ? record[`${prefix}${header}`] ?? '' : '';
+    const taxable = value(columns.taxableValue);
+    return [value(columns.gstin), value(columns.billNo), taxable !== '' ? `₹${taxable}` : ''].filter(v => v !== '').join(' · ');
+};
+
+const matchesSearch = (label: string, search: string) => label.toLowerCase().includes(search.trim().toLowerCase());
+
+const RecordList: React.FC<{
+    title: string;
+    records: { record: ReconciliationRecord; label: string }[];
+    selected: ReconciliationRecord | null;
+    onSelect: (record: ReconciliationRecord) => void;
+}> = ({ title, records, selected, onSelect }) => (
+    <div>
+        <p className="text-xs text-gray-500 mb-1">{title} ({records.length})</p>
+        <div className="max-h-56 overflow-y-auto border rounded-lg divide-y">
+            {records.slice(0, MAX_LISTED).map(({ record, label }, index) => (
+                <label key={index} className={`flex items-center space-x-2 px-2 py-1 text-sm cursor-pointer ${record === selected ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}>
+                    <input type="radio" checked={record === selected} onChange={() => onSelect(record)} className="text-indigo-600" />
+                    <span className="text-gray-700">{label}</span>
+                </label>
+            ))}
+            {records.length === 0 && <p className="px-2 py-1 text-sm text-gray-400">No records</p>}
+        </div>
+        {records.length > MAX_LISTED && (
+            <p className="text-xs text-gray-400 mt-1">Showing {MAX_LISTED} of {records.length}; refine the search to see more.</p>
+        )}
+    </div>
+);
+
+export const ManualOverridePanel: React.FC<ManualOverridePanelProps> = ({ result, onResultChange }) => {
+    const [matchSearch, setMatchSearch] = useState('');
+    const [bookRecord, setBookRecord] = useState<ReconciliationRecord | null>(null);
+    const [gstr2bRecord, setGstr2bRecord] = useState<ReconciliationRecord | null>(null);
+    const [matchRemark, setMatchRemark] = useState('');
+
+    const [unmatchSearch, setUnmatchSearch] = useState('');
+    const [pairedRecord, setPairedRecord] = useState<ReconciliationRecord | null>(null);
+    const [unmatchRemark, setUnmatchRemark] = useState('');
+
+    const [error, setError] = useState<string | null>(null);
+
+    const { books, gstr2b } = result.columns;
+    const booksOnly = ONLY_IN_BOOKS_CATEGORIES.flatMap(key => result[key])
+        .map(record => ({ record, label: describe(record, books) }))
+        .filter(({ label }) => matchesSearch(label, matchSearch));
+    const gstr2bOnly = ONLY_IN_GSTR2B_CATEGORIES.flatMap(key => result[key])
+        .map(record => ({ record, label: describe(record, gstr2b) }))
+        .filter(({ label }) => matchesSearch(label, matchSearch));
+    const paired = PAIRED_CATEGORIES.flatMap(key => result[key])
+        .map(record => ({
+            record,
+            label: `${describe(record, books)} ↔ ${describe(record, gstr2b, GSTR2B_PREFIX)} · ${record['Recon Status']}`,
+        }))
+        .filter(({ label }) => matchesSearch(label, unmatchSearch));
+
+    const apply = (change: () => ReconciliationResult) => {
+        try {
+            onResultChange(change());
+            setError(null);
+            setBookRecord(null);
+            setGstr2bRecord(null);
+            setPairedRecord(null);
+            setMatchRemark('');
+            setUnmatchRemark('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The override could not be applied.');
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-700 border-b pb-3 mb-6">Manual Overrides</h2>
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div className="space-y-3">
+                    <h3 className="text-base font-semibold text-gray-700">Force a match</h3>
+                    <input
+                        type="text"
+                        value={matchSearch}
+                        onChange={(e) => setMatchSearch(e.target.value)}
+                        placeholder="Search GSTIN, invoice number or amount"
+                        className={inputClass}
+                    />
+                    <RecordList title="Only in Books" records={booksOnly} selected={bookRecord} onSelect={setBookRecord} />
+                    <RecordList title="Only in GSTR-2B" records={gstr2bOnly} selected={gstr2bRecord} onSelect={setGstr2bRecord} />
+                    <input
+                        type="text"
+                        value={matchRemark}
+                        onChange={(e) => setMatchRemark(e.target.value)}
+                        placeholder="Remark (required)"
+                        className={inputClass}
+                    />
+                    <button
+                        onClick={() => apply(() => applyManualMatch(result, bookRecord!, gstr2bRecord!, matchRemark))}
+                        disabled={!bookRecord || !gstr2bRecord || !matchRemark.trim()}
+                        className={buttonClass}
+                    >
+                        Match Selected
+                    </button>
+                </div>
+                <div className="space-y-3">
+                    <h3 className="text-base font-semibold text-gray-700">Break a match</h3>
+                    <input
+                        type="text"
+                        value={unmatchSearch}
+                        onChange={(e) => setUnmatchSearch(e.target.value)}
+                        placeholder="Search GSTIN, invoice number or status"
+                        className={inputClass}
+                    />
+                    <RecordList title="Matched records" records={paired} selected={pairedRecord} onSelect={setPairedRecord} />
+                    {pairedRecord?.['Group ID'] && (
+                        <p className="text-xs text-gray-500">This record belongs to group {pairedRecord['Group ID']}; the whole group will be unmatched.</p>
+                    )}
+                    <input
+                        type="text"
+                        value={unmatchRemark}
+                        onChange={(e) => setUnmatchRemark(e.target.value)}
+                        placeholder="Remark (required)"
+                        className={inputClass}
+                    />
+                    <button
+                        onClick={() => apply(() => applyManualUnmatch(result, pairedRecord!, unmatchRemark))}
+                        disabled={!pairedRecord || !unmatchRemark.trim()}
+                        className={buttonClass}
+                    >
+                        Unmatch Selected
+                    </button>
+                </div>
+            </div>
+
+            {result.overrides.length > 0 && (
+                <div className="mt-8">
+                    <h3 className="text-base font-semibold text-gray-700 mb-2">Override Log</h3>
+                    <div className="overflow-x-auto rounded-lg border">
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                            <thead className="bg-gray-100">
+                                <tr>
+                                    {['Time', 'Action', 'GSTIN', 'Books', 'GSTR-2B', 'Previous Status', 'Remark'].map(header => (
+                                        <th key={header} className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider whitespace-nowrap">{header}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {result.overrides.map((entry, index) => (
+                                    <tr key={index}>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{new Date(entry.timestamp).toLocaleString()}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{entry.action}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{entry.gstin}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{entry.booksInvoices}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{entry.gstr2bInvoices}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{entry.previousStatus}</td>
+                                        <td className="px-4 py-2 text-gray-700">{entry.remark}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
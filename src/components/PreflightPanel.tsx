@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { PreflightIssueKind, ReconciliationRecord, ReconciliationResult } from '../types';
+import { PREFLIGHT_CHECKS, preflightRows } from '../services/preflight';
+
+interface PreflightPanelProps {
+    result: ReconciliationResult;
+    onDownload: (data: ReconciliationRecord[], fileName: string) => void;
+}
+
+// Long issue lists are cut off on screen; the download has every row.
+const MAX_SHOWN = 100;
+
+const HEADERS = ['File', 'Sheet', 'Row', 'GSTIN', 'Invoice Number', 'Column', 'Value', 'Issue'];
+
+export const PreflightPanel: React.FC<PreflightPanelProps> = ({ result, onDownload }) => {
+    const [kind, setKind] = useState<PreflightIssueKind | null>(null);
+
+    const issues = kind ? result.preflight.filter(issue => issue.kind === kind) : result.preflight;
+    const countOf = (checkKind: PreflightIssueKind) => result.preflight.filter(issue => issue.kind === checkKind).length;
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
+            <div className="flex flex-wrap items-center justify-between gap-3 border-b pb-3 mb-4">
+                <h2 className="text-xl font-semibold text-gray-700">Preflight Check</h2>
+                <button
+                    onClick={() => onDownload(preflightRows(issues), 'Preflight_Issues')}
+                    disabled={issues.length === 0}
+                    className="text-sm text-indigo-600 hover:text-indigo-800 font-semibold disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                    Download {kind ? 'these rows' : 'all rows'}
+                </button>
+            </div>
+            <p className="text-xs text-gray-500 -mt-2 mb-4">
+                Rows as read from the files, before matching. Dropped rows are left out of the reconciliation;
+                the other rows are reconciled as read and listed here for review.
+            </p>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                {PREFLIGHT_CHECKS.map(check => {
+                    const selected = kind === check.kind;
+                    return (
+                        <button
+                            key={check.kind}
+                            onClick={() => setKind(selected ? null : check.kind)}
+                            className={`px-3 py-1 rounded-full text-sm border ${selected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-gray-50 text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+                        >
+                            {check.label}: <span className="font-bold">{countOf(check.kind)}</span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {issues.length === 0 ? (
+                <p className="text-sm text-gray-500">No issues found.</p>
+            ) : (
+                <div className="overflow-x-auto border rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                {HEADERS.map(header => (
+                                    <th key={header} className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">{header}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {issues.slice(0, MAX_SHOWN).map((issue, index) => (
+                                <tr key={index}>
+                                    <td className="px-4 py-2 whitespace-nowrap">{issue.side}</td>
+                                    <td className="px-4 py-2">{issue.sheet}</td>
+                                    <td className="px-4 py-2">{issue.row ?? ''}</td>
+                                    <td className="px-4 py-2 whitespace-nowrap">{issue.gstin}</td>
+                                    <td className="px-4 py-2">{issue.invoiceNumber}</td>
+                                    <td className="px-4 py-2">{issue.column}</td>
+                                    <td className="px-4 py-2">{issue.value}</td>
+                                    <td className="px-4 py-2 text-gray-700">{issue.message}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {issues.length > MAX_SHOWN && (
+                <p className="text-xs text-gray-400 mt-2">Showing {MAX_SHOWN} of {issues.length}; download to see all.</p>
+            )}
+        </div>
+    );
+};
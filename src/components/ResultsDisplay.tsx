@@ -1,13 +1,32 @@
 import React from 'react';
 import { ReconciliationResult, Gstr2bType } from '../types';
-import { DownloadIcon, CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon, DocumentDuplicateIcon, InformationCircleIcon, PartiallyMatchedIcon } from './Icons';
+import { ManualOverridePanel } from './ManualOverridePanel';
+import { ResultsGrid } from './ResultsGrid';
+import { SupplierFollowUpPanel } from './SupplierFollowUpPanel';
+import { Gstr3bItcPanel } from './Gstr3bItcPanel';
+import { PreflightPanel } from './PreflightPanel';
+import { IMPORT_CATEGORIES } from '../services/reconciliationService';
+import { DownloadIcon, CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon, DocumentDuplicateIcon, InformationCircleIcon, PartiallyMatchedIcon, ClockIcon } from './Icons';
 
 interface ResultsDisplayProps {
     result: ReconciliationResult;
     onDownload: (data: any[], fileName: string) => void;
+    onDownloadWorkbook: () => void;
+    onResultChange: (result: ReconciliationResult) => void;
     gstr2bType: Gstr2bType;
 }
 
+const ITC_ROWS: { key: keyof ReconciliationResult['summary']['itc']; label: string }[] = [
+    { key: 'matched', label: 'Matched' },
+    { key: 'partiallyMatched', label: 'Partially matched' },
+    { key: 'unmatched', label: 'Unmatched' },
+    { key: 'total', label: 'Total' },
+];
+
+const SECTION_HEADERS = ['Section', 'Matched', 'Mismatched', 'Partially matched', 'Only in Books', 'Only in GSTR-2B', 'ITC claimable (₹)', 'ITC blocked (₹)'];
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
 const StatCard: React.FC<{ title: string; value: number | string; icon: React.ReactNode }> = ({ title, value, icon }) => (
     <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex items-center space-x-4">
         <div className="text-indigo-500">{icon}</div>
@@ -33,38 +52,122 @@ const DownloadButton: React.FC<{ label: string; count: number; onClick: () => vo
 );
 
 
-export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onDownload, gstr2bType }) => {
-    const previewData = result.finalReport.slice(0, 50);
-    const headers = previewData.length > 0 ? Object.keys(previewData[0]) : [];
-
-    const getRowClass = (status: string) => {
-        switch (status) {
-            case 'Matched': return 'bg-green-50';
-            case 'Partially Matched': return 'bg-blue-50';
-            case 'Only in Books': return 'bg-red-50';
-            case 'Only in GSTR-2B': return 'bg-yellow-50';
-            default: return 'bg-white';
-        }
-    };
+export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onDownload, onDownloadWorkbook, onResultChange, gstr2bType }) => {
+    // Bill of entry categories are only shown for runs that reconciled imports.
+    const hasImports = IMPORT_CATEGORIES.some(key => result[key].length > 0);
 
     return (
         <div className="space-y-8">
             {/* Summary Stats */}
             <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
                 <h2 className="text-xl font-semibold text-gray-700 border-b pb-3 mb-6">Reconciliation Summary</h2>
-                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                <p className="text-xs text-gray-500 -mt-4 mb-4">
+                    Settings used: tolerance ±₹{result.options.tolerance.taxableValue} taxable / ±₹{result.options.tolerance.integratedTax} IGST
+                    / ±₹{result.options.tolerance.centralTax} CGST / ±₹{result.options.tolerance.stateTax} SGST / ±₹{result.options.tolerance.cess} cess,
+                    {' '}{result.options.percentageTolerance}% of book value;
+                    {' '}legal name {result.options.requireLegalNameMatch ? 'required' : 'not required'} in partial match;
+                    {' '}multi-line invoices {result.options.consolidateInvoices ? 'consolidated' : 'kept separate'}
+                    {result.options.excludeIdenticalCopies && ', identical duplicate lines left out'}.
+                    {result.overrides.length > 0 && <> {result.overrides.length} manual override(s) applied.</>}
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
                     <StatCard title="In Books" value={result.summary.totalInBooks} icon={<DocumentDuplicateIcon />} />
                     <StatCard title="In GSTR-2B" value={result.summary.totalInGstr2b} icon={<DocumentDuplicateIcon />} />
                     <StatCard title="Matched" value={result.summary.matched} icon={<CheckCircleIcon />} />
+                    <StatCard title="Matched – Different Period" value={result.summary.matchedDifferentPeriod} icon={<CheckCircleIcon />} />
+                    <StatCard title="Value Mismatch" value={result.summary.valueMismatch} icon={<ExclamationTriangleIcon />} />
+                    <StatCard title="Tax Head Mismatch" value={result.summary.taxHeadMismatch} icon={<ExclamationTriangleIcon />} />
+                    <StatCard title="Cess Mismatch" value={result.summary.cessMismatch} icon={<ExclamationTriangleIcon />} />
+                    <StatCard title="Books Period Earlier" value={result.summary.booksPeriodEarlier} icon={<ClockIcon />} />
+                    <StatCard title="Books Period Later" value={result.summary.booksPeriodLater} icon={<ClockIcon />} />
+                    <StatCard title="Matched (Normalized No.)" value={result.summary.normalizedMatched} icon={<CheckCircleIcon />} />
                     <StatCard title="Partially Matched" value={result.summary.partiallyMatched} icon={<PartiallyMatchedIcon />} />
+                    <StatCard title="Group Matched (Groups)" value={result.summary.groupMatched} icon={<DocumentDuplicateIcon />} />
+                    <StatCard title="Manually Matched" value={result.summary.manuallyMatched} icon={<CheckCircleIcon />} />
                     <StatCard title="Only in Books" value={result.summary.onlyInBooks} icon={<XCircleIcon />} />
                     <StatCard title="Only in GSTR-2B" value={result.summary.onlyInGstr2b} icon={<ExclamationTriangleIcon />} />
+                    <StatCard title="ITC Not Available" value={result.summary.itcNotAvailable} icon={<XCircleIcon />} />
+                    <StatCard title="Reverse Charge (RCM)" value={result.summary.reverseCharge} icon={<InformationCircleIcon />} />
+                    <StatCard title="Amended in 2B" value={result.summary.amendedInGstr2b} icon={<InformationCircleIcon />} />
+                    <StatCard title="Suspected Duplicates" value={result.summary.suspectedDuplicates} icon={<DocumentDuplicateIcon />} />
+                    <StatCard title="GSTIN Suggestions" value={result.summary.gstinSuggestions} icon={<InformationCircleIcon />} />
+                    {hasImports && (
+                        <>
+                            <StatCard title="Imports Matched" value={result.summary.imports.matched} icon={<CheckCircleIcon />} />
+                            <StatCard title="Imports Mismatched" value={result.summary.imports.mismatched} icon={<ExclamationTriangleIcon />} />
+                            <StatCard title="BoE Only in Books" value={result.summary.imports.onlyInBooks} icon={<XCircleIcon />} />
+                            <StatCard title="BoE Only in GSTR-2B" value={result.summary.imports.onlyInGstr2b} icon={<ExclamationTriangleIcon />} />
+                        </>
+                    )}
                 </div>
+                <div className="mt-6 overflow-x-auto">
+                    <h3 className="text-sm font-semibold text-gray-600 mb-2">Input Tax Credit (IGST + CGST + SGST + Cess)</h3>
+                    <table className="min-w-full divide-y divide-gray-200 text-sm border rounded-lg">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                {['', 'Claimable (₹)', 'Blocked (₹)'].map(header => (
+                                    <th key={header} className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">{header}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {ITC_ROWS.map(({ key, label }) => (
+                                <tr key={key} className={key === 'total' ? 'font-semibold' : ''}>
+                                    <td className="px-4 py-2 text-gray-700">{label}</td>
+                                    <td className="px-4 py-2 text-green-700">{formatRupees(result.summary.itc[key].claimable)}</td>
+                                    <td className="px-4 py-2 text-red-700">{formatRupees(result.summary.itc[key].blocked)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Blocked ITC is tax on records that GSTR-2B marks as not available, or that are not in GSTR-2B at all.
+                    </p>
+                </div>
+                {result.summary.sections && (
+                    <div className="mt-6 overflow-x-auto">
+                        <h3 className="text-sm font-semibold text-gray-600 mb-2">By Section</h3>
+                        <table className="min-w-full divide-y divide-gray-200 text-sm border rounded-lg">
+                            <thead className="bg-gray-100">
+                                <tr>
+                                    {SECTION_HEADERS.map(header => (
+                                        <th key={header} className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">{header}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {result.summary.sections.map(subtotal => (
+                                    <tr key={subtotal.section}>
+                                        <td className="px-4 py-2 font-semibold text-gray-700">{subtotal.section}</td>
+                                        <td className="px-4 py-2">{subtotal.matched}</td>
+                                        <td className="px-4 py-2">{subtotal.mismatched}</td>
+                                        <td className="px-4 py-2">{subtotal.partiallyMatched}</td>
+                                        <td className="px-4 py-2">{subtotal.onlyInBooks}</td>
+                                        <td className="px-4 py-2">{subtotal.onlyInGstr2b}</td>
+                                        <td className="px-4 py-2 text-green-700">{formatRupees(subtotal.itc.claimable)}</td>
+                                        <td className="px-4 py-2 text-red-700">{formatRupees(subtotal.itc.blocked)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
             </div>
 
+            {result.preflight.length > 0 && <PreflightPanel result={result} onDownload={onDownload} />}
+
             {/* Download Section */}
             <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
-                 <h2 className="text-xl font-semibold text-gray-700 border-b pb-3 mb-6">Download Reports</h2>
+                 <div className="flex flex-wrap items-center justify-between gap-3 border-b pb-3 mb-6">
+                     <h2 className="text-xl font-semibold text-gray-700">Download Reports</h2>
+                     <button
+                        onClick={onDownloadWorkbook}
+                        className="inline-flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg shadow hover:bg-indigo-700"
+                     >
+                        <DownloadIcon />
+                        <span>Download full workbook</span>
+                     </button>
+                 </div>
                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                      <DownloadButton
                         label="Final Reconciliation"
@@ -73,6 +176,41 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onDownlo
                         icon={<DownloadIcon />}
                         color="bg-green-600 hover:bg-green-700"
                     />
+                    <DownloadButton
+                        label="Matched – Different Period"
+                        count={result.differentPeriodRecords.length}
+                        onClick={() => onDownload(result.differentPeriodRecords, 'Matched_Different_Period_Report')}
+                        icon={<CheckCircleIcon />}
+                        color="bg-lime-600 hover:bg-lime-700"
+                    />
+                    <DownloadButton
+                        label="Value Mismatch"
+                        count={result.valueMismatchRecords.length}
+                        onClick={() => onDownload(result.valueMismatchRecords, 'Value_Mismatch_Report')}
+                        icon={<ExclamationTriangleIcon />}
+                        color="bg-orange-600 hover:bg-orange-700"
+                    />
+                    <DownloadButton
+                        label="Tax Head Mismatch (IGST vs CGST/SGST)"
+                        count={result.taxHeadMismatchRecords.length}
+                        onClick={() => onDownload(result.taxHeadMismatchRecords, 'Tax_Head_Mismatch_Report')}
+                        icon={<ExclamationTriangleIcon />}
+                        color="bg-rose-600 hover:bg-rose-700"
+                    />
+                    <DownloadButton
+                        label="Cess Mismatch"
+                        count={result.cessMismatchRecords.length}
+                        onClick={() => onDownload(result.cessMismatchRecords, 'Cess_Mismatch_Report')}
+                        icon={<ExclamationTriangleIcon />}
+                        color="bg-amber-600 hover:bg-amber-700"
+                    />
+                    <DownloadButton
+                        label="Matched (Normalized Invoice No.)"
+                        count={result.normalizedMatchedRecords.length}
+                        onClick={() => onDownload(result.normalizedMatchedRecords, 'Normalized_Invoice_No_Matched_Report')}
+                        icon={<CheckCircleIcon />}
+                        color="bg-emerald-600 hover:bg-emerald-700"
+                    />
                     <DownloadButton
                         label="Partially Matched"
                         count={result.partiallyMatchedRecords.length}
@@ -80,6 +218,20 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onDownlo
                         icon={<PartiallyMatchedIcon />}
                         color="bg-orange-500 hover:bg-orange-600"
                     />
+                    <DownloadButton
+                        label="Group Matched"
+                        count={result.groupMatchedRecords.length}
+                        onClick={() => onDownload(result.groupMatchedRecords, 'Group_Matched_Report')}
+                        icon={<DocumentDuplicateIcon />}
+                        color="bg-cyan-600 hover:bg-cyan-700"
+                    />
+                    <DownloadButton
+                        label="Manually Matched"
+                        count={result.manuallyMatchedRecords.length}
+                        onClick={() => onDownload(result.manuallyMatchedRecords, 'Manually_Matched_Report')}
+                        icon={<CheckCircleIcon />}
+                        color="bg-violet-600 hover:bg-violet-700"
+                    />
                     <DownloadButton
                         label="Invoices in Book, not in 2B"
                         count={result.invoicesInBookNotInGstr2b.length}
@@ -108,44 +260,72 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onDownlo
                         icon={<ExclamationTriangleIcon />}
                         color="bg-blue-500 hover:bg-blue-600"
                     />
+                    <DownloadButton
+                        label="Debit Notes in Book, not in 2B"
+                        count={result.debitNotesInBookNotInGstr2b.length}
+                        onClick={() => onDownload(result.debitNotesInBookNotInGstr2b, 'DN_in_Book_not_in_GSTR2B')}
+                        icon={<XCircleIcon />}
+                        color="bg-pink-500 hover:bg-pink-600"
+                    />
+                    <DownloadButton
+                        label="Debit Notes in 2B, not in Book"
+                        count={result.debitNotesInGstr2bNotInBook.length}
+                        onClick={() => onDownload(result.debitNotesInGstr2bNotInBook, 'DN_in_GSTR2B_not_in_Book')}
+                        icon={<ExclamationTriangleIcon />}
+                        color="bg-teal-500 hover:bg-teal-600"
+                    />
+                    <DownloadButton
+                        label="Suspected Duplicates"
+                        count={result.suspectedDuplicateRecords.length}
+                        onClick={() => onDownload(result.suspectedDuplicateRecords, 'Suspected_Duplicates')}
+                        icon={<DocumentDuplicateIcon />}
+                        color="bg-fuchsia-600 hover:bg-fuchsia-700"
+                    />
                  </div>
+                 {hasImports && (
+                    <>
+                        <h3 className="text-sm font-semibold text-gray-600 mt-6 mb-3">Import of Goods (Bills of Entry)</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                            <DownloadButton
+                                label="Imports Matched"
+                                count={result.importMatchedRecords.length}
+                                onClick={() => onDownload(result.importMatchedRecords, 'Imports_Matched_Report')}
+                                icon={<CheckCircleIcon />}
+                                color="bg-green-600 hover:bg-green-700"
+                            />
+                            <DownloadButton
+                                label="Imports Mismatch (IGST / Cess)"
+                                count={result.importMismatchRecords.length}
+                                onClick={() => onDownload(result.importMismatchRecords, 'Imports_Mismatch_Report')}
+                                icon={<ExclamationTriangleIcon />}
+                                color="bg-orange-600 hover:bg-orange-700"
+                            />
+                            <DownloadButton
+                                label="BoE in Book, not in 2B"
+                                count={result.importsInBookNotInGstr2b.length}
+                                onClick={() => onDownload(result.importsInBookNotInGstr2b, 'BoE_in_Book_not_in_GSTR2B')}
+                                icon={<XCircleIcon />}
+                                color="bg-red-500 hover:bg-red-600"
+                            />
+                            <DownloadButton
+                                label="BoE in 2B, not in Book"
+                                count={result.importsInGstr2bNotInBook.length}
+                                onClick={() => onDownload(result.importsInGstr2bNotInBook, 'BoE_in_GSTR2B_not_in_Book')}
+                                icon={<ExclamationTriangleIcon />}
+                                color="bg-yellow-500 hover:bg-yellow-600"
+                            />
+                        </div>
+                    </>
+                 )}
             </div>
 
-            {/* Preview Table */}
-            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
-                <h2 className="text-xl font-semibold text-gray-700 border-b pb-3 mb-6">Reconciliation Preview (First 50 Rows)</h2>
-                {previewData.length > 0 ? (
-                    <div className="overflow-x-auto max-h-[600px] rounded-lg border">
-                        <table className="min-w-full divide-y divide-gray-200 text-sm">
-                            <thead className="bg-gray-100 sticky top-0 z-10">
-                                <tr>
-                                    {headers.map(header => (
-                                        <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider whitespace-nowrap">
-                                            {header}
-                                        </th>
-                                    ))}
-                                </tr>
-                            </thead>
-                            <tbody className="bg-white divide-y divide-gray-200">
-                                {previewData.map((row, index) => (
-                                    <tr key={index} className={getRowClass(row['Recon Status'])}>
-                                        {headers.map(header => (
-                                            <td key={`${index}-${header}`} className="px-4 py-3 whitespace-nowrap text-gray-700">
-                                                {String(row[header] ?? '')}
-                                            </td>
-                                        ))}
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
-                    </div>
-                ) : (
-                    <div className="text-center py-10">
-                        <InformationCircleIcon />
-                        <p className="mt-2 text-gray-600">No data to display in the preview.</p>
-                    </div>
-                )}
-            </div>
+            <ManualOverridePanel result={result} onResultChange={onResultChange} />
+
+            <Gstr3bItcPanel result={result} onDownload={onDownload} />
+
+            <SupplierFollowUpPanel result={result} />
+
+            <ResultsGrid records={result.finalReport} onDownload={onDownload} />
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,218 @@
+import React, { useState, useMemo, useDeferredValue } from 'react';
+import { GridColumnFilter, GridQuery, ReconciliationRecord } from '../types';
+import { getRowClass } from '../services/statusStyles';
+import { EMPTY_GRID_QUERY, applyGridQuery, collectColumns, distinctValues, isNumericColumn, projectColumns } from '../services/gridQuery';
+import { DownloadIcon, InformationCircleIcon } from './Icons';
+
+interface ResultsGridProps {
+    records: ReconciliationRecord[];
+    onDownload: (data: ReconciliationRecord[], fileName: string) => void;
+}
+
+// Only the rows in view (plus a margin) are rendered, so the whole report can be scrolled.
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN_ROWS = 10;
+const COLUMN_WIDTH = 180;
+
+// Columns filtered by picking from their values rather than by free text.
+const PICK_LIST_COLUMNS = ['Recon Status', 'Reason Code', 'Recon Period', 'ITC Status', 'RCM Supply', 'Document Kind', 'Recon Section'];
+
+const inputClass = "w-full bg-white border border-gray-300 text-gray-900 text-xs rounded focus:ring-blue-500 focus:border-blue-500 p-1";
+
+const toBound = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return value.trim() === '' || isNaN(parsed) ? undefined : parsed;
+};
+
+export const ResultsGrid: React.FC<ResultsGridProps> = ({ records, onDownload }) => {
+    const [query, setQuery] = useState<GridQuery>(EMPTY_GRID_QUERY);
+    const [hiddenColumns, setHiddenColumns] = useState<Set<string>>(new Set());
+    const [showColumnChooser, setShowColumnChooser] = useState(false);
+    const [scrollTop, setScrollTop] = useState(0);
+
+    const columns = useMemo(() => collectColumns(records), [records]);
+    const numericColumns = useMemo(() => new Set(columns.filter(column => isNumericColumn(records, column))), [columns, records]);
+    const pickLists = useMemo(
+        () => Object.fromEntries(PICK_LIST_COLUMNS.filter(c => columns.includes(c)).map(c => [c, distinctValues(records, c)])),
+        [columns, records]
+    );
+    const visibleColumns = columns.filter(column => !hiddenColumns.has(column));
+
+    // Filtering a large report on every keystroke would make typing lag.
+    const deferredQuery = useDeferredValue(query);
+    const rows = useMemo(() => applyGridQuery(records, deferredQuery), [records, deferredQuery]);
+
+    const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const lastRow = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+    const setFilter = (column: string, filter: GridColumnFilter | null) => {
+        const filters = { ...query.filters };
+        if (filter) filters[column] = filter;
+        else delete filters[column];
+        setQuery({ ...query, filters });
+    };
+
+    const rangeFilter = (column: string) => {
+        const filter = query.filters[column];
+        return filter?.kind === 'range' ? filter : { kind: 'range' as const };
+    };
+
+    const toggleSort = (column: string) => {
+        const { sort } = query;
+        if (sort?.column !== column) setQuery({ ...query, sort: { column, direction: 'asc' } });
+        else if (sort.direction === 'asc') setQuery({ ...query, sort: { column, direction: 'desc' } });
+        else setQuery({ ...query, sort: null });
+    };
+
+    const toggleColumn = (column: string) => {
+        const next = new Set(hiddenColumns);
+        if (next.has(column)) next.delete(column);
+        else next.add(column);
+        setHiddenColumns(next);
+    };
+
+    const isFiltered = query.search.trim() !== '' || Object.keys(query.filters).length > 0;
+
+    const renderFilter = (column: string) => {
+        const filter = query.filters[column];
+        if (pickLists[column]) {
+            return (
+                <select
+                    value={filter?.kind === 'values' ? filter.values[0] ?? '' : ''}
+                    onChange={(e) => setFilter(column, e.target.value ? { kind: 'values', values: [e.target.value] } : null)}
+                    className={inputClass}
+                >
+                    <option value="">All</option>
+                    {pickLists[column].map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+            );
+        }
+        if (numericColumns.has(column)) {
+            const range = rangeFilter(column);
+            const setBound = (bound: 'min' | 'max', value: string) => {
+                const next = { ...range, [bound]: toBound(value) };
+                setFilter(column, next.min === undefined && next.max === undefined ? null : next);
+            };
+            return (
+                <div className="flex space-x-1">
+                    <input type="number" placeholder="Min" value={range.min ?? ''} onChange={(e) => setBound('min', e.target.value)} className={inputClass} />
+                    <input type="number" placeholder="Max" value={range.max ?? ''} onChange={(e) => setBound('max', e.target.value)} className={inputClass} />
+                </div>
+            );
+        }
+        return (
+            <input
+                type="text"
+                placeholder="Contains"
+                value={filter?.kind === 'text' ? filter.value : ''}
+                onChange={(e) => setFilter(column, e.target.value ? { kind: 'text', value: e.target.value } : null)}
+                className={inputClass}
+            />
+        );
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
+            <div className="flex flex-wrap items-center justify-between gap-3 border-b pb-3 mb-4">
+                <h2 className="text-xl font-semibold text-gray-700">Reconciliation Report</h2>
+                <button
+                    onClick={() => onDownload(projectColumns(rows, visibleColumns), isFiltered ? 'Filtered_Reconciliation_Report' : 'Final_Reconciliation_Report')}
+                    disabled={rows.length === 0 || visibleColumns.length === 0}
+                    className="inline-flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg shadow hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    <DownloadIcon />
+                    <span>Download this view</span>
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+                <input
+                    type="search"
+                    placeholder="Search all columns..."
+                    value={query.search}
+                    onChange={(e) => setQuery({ ...query, search: e.target.value })}
+                    className="flex-1 min-w-[16rem] bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+                />
+                <button onClick={() => setShowColumnChooser(!showColumnChooser)} className="text-sm text-indigo-600 hover:text-indigo-800 font-semibold">
+                    Columns ({visibleColumns.length}/{columns.length}) {showColumnChooser ? '▲' : '▼'}
+                </button>
+                {isFiltered && (
+                    <button onClick={() => setQuery({ ...EMPTY_GRID_QUERY, sort: query.sort })} className="text-sm text-gray-500 hover:text-gray-700 font-semibold">
+                        Clear filters
+                    </button>
+                )}
+                <span className="text-sm text-gray-500">{rows.length} of {records.length} rows</span>
+            </div>
+
+            {showColumnChooser && (
+                <div className="mb-3 p-3 border rounded-lg bg-gray-50">
+                    <div className="flex space-x-4 mb-2">
+                        <button onClick={() => setHiddenColumns(new Set())} className="text-xs text-indigo-600 hover:text-indigo-800 font-semibold">Show all</button>
+                        <button onClick={() => setHiddenColumns(new Set(columns))} className="text-xs text-indigo-600 hover:text-indigo-800 font-semibold">Hide all</button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-1 max-h-48 overflow-y-auto">
+                        {columns.map(column => (
+                            <label key={column} className="flex items-center space-x-2 text-xs text-gray-700">
+                                <input type="checkbox" checked={!hiddenColumns.has(column)} onChange={() => toggleColumn(column)} className="text-indigo-600" />
+                                <span className="truncate" title={column}>{column}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {records.length === 0 ? (
+                <div className="text-center py-10">
+                    <InformationCircleIcon />
+                    <p className="mt-2 text-gray-600">No data to display.</p>
+                </div>
+            ) : (
+                <div
+                    className="overflow-auto rounded-lg border"
+                    style={{ height: VIEWPORT_HEIGHT }}
+                    onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                >
+                    <table className="table-fixed divide-y divide-gray-200 text-sm" style={{ width: visibleColumns.length * COLUMN_WIDTH }}>
+                        <thead className="bg-gray-100 sticky top-0 z-10">
+                            <tr>
+                                {visibleColumns.map(column => (
+                                    <th
+                                        key={column}
+                                        scope="col"
+                                        onClick={() => toggleSort(column)}
+                                        title={column}
+                                        style={{ width: COLUMN_WIDTH }}
+                                        className="px-3 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider truncate cursor-pointer select-none hover:bg-gray-200"
+                                    >
+                                        {column}
+                                        {query.sort?.column === column && (query.sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                                    </th>
+                                ))}
+                            </tr>
+                            <tr>
+                                {visibleColumns.map(column => (
+                                    <th key={column} className="px-2 pb-2 font-normal">{renderFilter(column)}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+                            {rows.slice(firstRow, lastRow).map((row, index) => (
+                                <tr key={firstRow + index} className={getRowClass(row['Recon Status'])} style={{ height: ROW_HEIGHT }}>
+                                    {visibleColumns.map(column => (
+                                        <td key={column} className="px-3 whitespace-nowrap truncate text-gray-700" title={String(row[column] ?? '')}>
+                                            {String(row[column] ?? '')}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                            {lastRow < rows.length && <tr style={{ height: (rows.length - lastRow) * ROW_HEIGHT }} />}
+                        </tbody>
+                    </table>
+                    {rows.length === 0 && <p className="text-center py-10 text-gray-500">No rows match the current filters.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,100 @@
+import React, { useState, useMemo } from 'react';
+import { RunMovement, StoredRun } from '../types';
+
+interface RunComparisonProps {
+    previousRun: StoredRun;
+    movements: RunMovement[];
+    onDownload: (movements: RunMovement[]) => void;
+    onClose: () => void;
+}
+
+// Large comparisons are cut off on screen; the download always has every movement.
+const MAX_SHOWN = 200;
+
+const transitionOf = (movement: RunMovement) => `${movement.previousCategory} → ${movement.currentCategory}`;
+
+export const RunComparison: React.FC<RunComparisonProps> = ({ previousRun, movements, onDownload, onClose }) => {
+    const [transition, setTransition] = useState<string | null>(null);
+
+    const transitions = useMemo(() => {
+        const counts = new Map<string, number>();
+        movements.forEach(movement => counts.set(transitionOf(movement), (counts.get(transitionOf(movement)) ?? 0) + 1));
+        return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    }, [movements]);
+
+    const shown = transition ? movements.filter(movement => transitionOf(movement) === transition) : movements;
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
+            <div className="flex flex-wrap items-center justify-between gap-3 border-b pb-3 mb-6">
+                <div>
+                    <h2 className="text-xl font-semibold text-gray-700">Changes Since Previous Run</h2>
+                    <p className="text-xs text-gray-500">
+                        Compared with the run of {new Date(previousRun.createdAt).toLocaleString()} ({previousRun.booksFileName} / {previousRun.gstr2bFileName})
+                    </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                    <button
+                        onClick={() => onDownload(shown)}
+                        disabled={shown.length === 0}
+                        className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        Download
+                    </button>
+                    <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700 font-semibold">
+                        Close
+                    </button>
+                </div>
+            </div>
+
+            {movements.length === 0 ? (
+                <p className="text-sm text-gray-500">No invoice changed category between the two runs.</p>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-2 mb-4">
+                        <button
+                            onClick={() => setTransition(null)}
+                            className={`px-3 py-1 rounded-full text-xs font-semibold border ${transition === null ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+                        >
+                            All ({movements.length})
+                        </button>
+                        {transitions.map(([label, count]) => (
+                            <button
+                                key={label}
+                                onClick={() => setTransition(label)}
+                                className={`px-3 py-1 rounded-full text-xs font-semibold border ${transition === label ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+                            >
+                                {label} ({count})
+                            </button>
+                        ))}
+                    </div>
+                    <div className="overflow-x-auto border rounded-lg max-h-[32rem]">
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                            <thead className="bg-gray-100 sticky top-0">
+                                <tr>
+                                    {['Side', 'GSTIN', 'Invoice Number', 'Previous Category', 'Current Category'].map(header => (
+                                        <th key={header} className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider whitespace-nowrap">{header}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {shown.slice(0, MAX_SHOWN).map((movement, index) => (
+                                    <tr key={index}>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{movement.side}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{movement.gstin}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{movement.invoiceNumber}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-500">{movement.previousCategory}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-800">{movement.currentCategory}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {shown.length > MAX_SHOWN && (
+                        <p className="text-xs text-gray-400 mt-2">Showing {MAX_SHOWN} of {shown.length}; download to see all.</p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
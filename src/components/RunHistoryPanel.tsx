@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { StoredRun } from '../types';
+
+interface RunHistoryPanelProps {
+    runs: StoredRun[];
+    currentRunId: string | null;
+    error: string | null;
+    /** Whether a result is on screen to compare a stored run against. */
+    canCompare: boolean;
+    onOpen: (id: string) => void;
+    onCompare: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const linkClass = "text-xs font-semibold disabled:text-gray-300 disabled:cursor-not-allowed";
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+// The first characters of the hash are enough to tell re-uploads of the same file apart.
+const shortHash = (hash: string) => hash.slice(0, 8);
+
+export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ runs, currentRunId, error, canCompare, onOpen, onCompare, onDelete }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    // The run before the one on screen; for a result that is not stored, the latest run.
+    const currentIndex = runs.findIndex(run => run.id === currentRunId);
+    const previousRun = currentRunId ? runs[currentIndex + 1] : runs[0];
+
+    return (
+        <div className="border border-gray-200 rounded-lg">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between px-4 py-3 text-left text-sm font-semibold text-gray-700 hover:bg-gray-50 rounded-lg"
+            >
+                <span>Run History</span>
+                <span className="text-xs font-normal text-gray-500">
+                    {runs.length} stored run(s) {isOpen ? '▲' : '▼'}
+                </span>
+            </button>
+            {isOpen && (
+                <div className="px-4 pb-4 space-y-3">
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-xs text-gray-500">Runs are stored in this browser only.</p>
+                        <button
+                            onClick={() => previousRun && onCompare(previousRun.id)}
+                            disabled={!canCompare || !previousRun}
+                            className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                        >
+                            Compare with previous run
+                        </button>
+                    </div>
+                    {runs.length === 0 ? (
+                        <p className="text-sm text-gray-400">No runs stored yet.</p>
+                    ) : (
+                        <div className="max-h-80 overflow-y-auto border rounded-lg divide-y">
+                            {runs.map(run => (
+                                <div key={run.id} className={`flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm ${run.id === currentRunId ? 'bg-indigo-50' : ''}`}>
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-gray-700">
+                                            {formatDate(run.createdAt)}
+                                            {run.id === currentRunId && <span className="ml-2 text-xs text-indigo-600">(showing)</span>}
+                                        </p>
+                                        <p className="text-xs text-gray-500 truncate">
+                                            {run.booksFileName} <span className="text-gray-400">#{shortHash(run.booksFileHash)}</span>
+                                            {' · '}{run.gstr2bFileName} <span className="text-gray-400">#{shortHash(run.gstr2bFileHash)}</span>
+                                            {' · '}{run.gstr2bType}
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            {run.summary.matched} matched · {run.summary.onlyInBooks} only in books · {run.summary.onlyInGstr2b} only in 2B
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center space-x-3">
+                                        <button onClick={() => onOpen(run.id)} disabled={run.id === currentRunId} className={`${linkClass} text-indigo-600 hover:text-indigo-800`}>
+                                            Open
+                                        </button>
+                                        <button onClick={() => onCompare(run.id)} disabled={!canCompare || run.id === currentRunId} className={`${linkClass} text-indigo-600 hover:text-indigo-800`}>
+                                            Compare
+                                        </button>
+                                        <button onClick={() => onDelete(run.id)} className={`${linkClass} text-red-600 hover:text-red-800`}>
+                                            Delete
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
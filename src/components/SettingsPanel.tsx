@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ReconciliationOptions, ToleranceSettings } from '../types';
+import { validateGstin } from '../services/gstinValidator';
+
+interface SettingsPanelProps {
+    options: ReconciliationOptions;
+    onChange: (options: ReconciliationOptions) => void;
+    onReset: () => void;
+}
+
+const TOLERANCE_FIELDS: { key: keyof ToleranceSettings; label: string }[] = [
+    { key: 'taxableValue', label: 'Taxable Value' },
+    { key: 'integratedTax', label: 'IGST' },
+    { key: 'centralTax', label: 'CGST' },
+    { key: 'stateTax', label: 'SGST' },
+    { key: 'cess', label: 'Cess' },
+];
+
+const inputClass = "w-full bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2";
+
+// Empty or invalid input falls back to zero rather than NaN, which would disable matching.
+const toAmount = (value: string): number => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ options, onChange, onReset }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const setTolerance = (key: keyof ToleranceSettings, value: string) =>
+        onChange({ ...options, tolerance: { ...options.tolerance, [key]: toAmount(value) } });
+    const recipientCheck = options.recipientGstin ? validateGstin(options.recipientGstin) : null;
+
+    return (
+        <div className="border border-gray-200 rounded-lg">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between px-4 py-3 text-left text-sm font-semibold text-gray-700 hover:bg-gray-50 rounded-lg"
+            >
+                <span>Matching Settings</span>
+                <span className="text-xs font-normal text-gray-500">
+                    ±₹{options.tolerance.taxableValue} taxable, {options.percentageTolerance}% {isOpen ? '▲' : '▼'}
+                </span>
+            </button>
+            {isOpen && (
+                <div className="px-4 pb-4 space-y-4">
+                    <div>
+                        <p className="text-sm font-medium text-gray-600 mb-2">Absolute tolerance per head (₹)</p>
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            {TOLERANCE_FIELDS.map(({ key, label }) => (
+                                <div key={key}>
+                                    <label htmlFor={`tolerance-${key}`} className="block text-xs text-gray-500 mb-1">{label}</label>
+                                    <input
+                                        id={`tolerance-${key}`}
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={options.tolerance[key]}
+                                        onChange={(e) => setTolerance(key, e.target.value)}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                        <div>
+                            <label htmlFor="percentageTolerance" className="block text-xs text-gray-500 mb-1">Percentage tolerance (%)</label>
+                            <input
+                                id="percentageTolerance"
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={options.percentageTolerance}
+                                onChange={(e) => onChange({ ...options, percentageTolerance: toAmount(e.target.value) })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <label className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={options.requireLegalNameMatch}
+                                onChange={(e) => onChange({ ...options, requireLegalNameMatch: e.target.checked })}
+                                className="rounded border-gray-300 text-indigo-600"
+                            />
+                            <span>Require same legal name in partial match</span>
+                        </label>
+                        <label className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={options.consolidateInvoices}
+                                onChange={(e) => onChange({ ...options, consolidateInvoices: e.target.checked })}
+                                className="rounded border-gray-300 text-indigo-600"
+                            />
+                            <span>Consolidate multi-line invoices</span>
+                        </label>
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={options.excludeIdenticalCopies}
+                            onChange={(e) => onChange({ ...options, excludeIdenticalCopies: e.target.checked })}
+                            className="rounded border-gray-300 text-indigo-600"
+                        />
+                        <span>Leave identical duplicate lines out of invoice totals</span>
+                    </label>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <div>
+                            <label htmlFor="recipientGstin" className="block text-xs text-gray-500 mb-1">Our GSTIN (for IGST vs CGST/SGST checks)</label>
+                            <input
+                                id="recipientGstin"
+                                type="text"
+                                maxLength={15}
+                                placeholder="From the GSTR-2B JSON"
+                                value={options.recipientGstin}
+                                onChange={(e) => onChange({ ...options, recipientGstin: e.target.value.toUpperCase().trim() })}
+                                className={inputClass}
+                            />
+                            {recipientCheck && (
+                                <p className={`text-xs mt-1 ${recipientCheck.valid ? 'text-gray-500' : 'text-red-600'}`}>
+                                    {recipientCheck.valid ? recipientCheck.state : recipientCheck.problem}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    <div className="text-right">
+                        <button onClick={onReset} className="text-xs text-indigo-600 hover:text-indigo-800 font-semibold">
+                            Reset to defaults
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
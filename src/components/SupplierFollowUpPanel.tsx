@@ -0,0 +1,112 @@
+import React, { useState, useMemo } from 'react';
+import { FollowUpFormat, ReconciliationResult } from '../types';
+import {
+    DEFAULT_FOLLOW_UP_TEMPLATE,
+    FOLLOW_UP_PLACEHOLDERS,
+    buildSupplierFollowUps,
+    downloadFollowUpZip,
+    loadFollowUpTemplate,
+    renderFollowUpLetter,
+    saveFollowUpTemplate,
+} from '../services/supplierFollowUp';
+import { Spinner } from './Icons';
+
+interface SupplierFollowUpPanelProps {
+    result: ReconciliationResult;
+}
+
+const buttonClass = "inline-flex items-center px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed";
+
+export const SupplierFollowUpPanel: React.FC<SupplierFollowUpPanelProps> = ({ result }) => {
+    const [template, setTemplate] = useState(loadFollowUpTemplate);
+    const [format, setFormat] = useState<FollowUpFormat>('workbook');
+    const [showPreview, setShowPreview] = useState(false);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const followUps = useMemo(() => buildSupplierFollowUps(result), [result]);
+    const invoiceCount = followUps.reduce((sum, followUp) => sum + followUp.invoices.length, 0);
+
+    const handleTemplateChange = (value: string) => {
+        setTemplate(value);
+        saveFollowUpTemplate(value);
+    };
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setError(null);
+        try {
+            await downloadFollowUpZip(result, template, format, 'Supplier_Follow_Ups');
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Could not create the follow-up pack.');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-700 border-b pb-3 mb-4">Supplier Follow-ups</h2>
+            <p className="text-sm text-gray-600 mb-4">
+                {followUps.length} supplier(s) with {invoiceCount} invoice(s) missing from GSTR-2B or reported with different values.
+                The pack has one file per supplier and an index workbook to track contact status.
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2">
+                    <div className="flex items-center justify-between mb-1">
+                        <label htmlFor="followUpTemplate" className="text-sm font-medium text-gray-600">Letter template</label>
+                        <div className="space-x-4">
+                            <button onClick={() => setShowPreview(!showPreview)} disabled={followUps.length === 0} className="text-xs text-indigo-600 hover:text-indigo-800 font-semibold disabled:text-gray-300">
+                                {showPreview ? 'Edit' : 'Preview'}
+                            </button>
+                            <button onClick={() => handleTemplateChange(DEFAULT_FOLLOW_UP_TEMPLATE)} className="text-xs text-gray-500 hover:text-gray-700 font-semibold">
+                                Reset to default
+                            </button>
+                        </div>
+                    </div>
+                    {showPreview && followUps.length > 0 ? (
+                        <pre className="h-80 overflow-y-auto whitespace-pre-wrap bg-gray-50 border border-gray-300 rounded-lg p-3 text-sm text-gray-800 font-serif">
+                            {renderFollowUpLetter(template, followUps[0])}
+                        </pre>
+                    ) : (
+                        <textarea
+                            id="followUpTemplate"
+                            value={template}
+                            onChange={(e) => handleTemplateChange(e.target.value)}
+                            className="w-full h-80 bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-3 font-mono"
+                        />
+                    )}
+                </div>
+                <div className="space-y-4">
+                    <div>
+                        <p className="text-sm font-medium text-gray-600 mb-1">Placeholders</p>
+                        <ul className="text-xs text-gray-600 space-y-1">
+                            {FOLLOW_UP_PLACEHOLDERS.map(({ placeholder, description }) => (
+                                <li key={placeholder}><code className="text-indigo-700">{placeholder}</code> {description}</li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div>
+                        <label htmlFor="followUpFormat" className="block text-sm font-medium text-gray-600 mb-1">One file per supplier as</label>
+                        <select
+                            id="followUpFormat"
+                            value={format}
+                            onChange={(e) => setFormat(e.target.value as FollowUpFormat)}
+                            className="w-full bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2"
+                        >
+                            <option value="workbook">Workbook (invoice list and letter)</option>
+                            <option value="letter">Printable letter (HTML)</option>
+                        </select>
+                    </div>
+                    <button onClick={handleGenerate} disabled={followUps.length === 0 || isGenerating} className={buttonClass}>
+                        {isGenerating && <Spinner />}
+                        Generate supplier follow-ups
+                    </button>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { ColumnField, ColumnMapping, DetectedColumns } from '../types';
+import { detectColumns } from '../services/reconciliationService';
+import { findProfileForHeaders } from '../services/columnProfiles';
+
+interface ColumnMappingState {
+    detected: DetectedColumns | null;
+    mapping: ColumnMapping;
+    appliedProfile: string | null;
+    error: string | null;
+    setMapping: (mapping: ColumnMapping) => void;
+    applyProfile: (name: string | null, mapping: ColumnMapping) => void;
+}
+
+/**
+ * Detects the header row of an uploaded file and keeps the column mapping for it. A saved
+ * profile for the same header set is applied automatically; otherwise the alias guesses are
+ * used as the starting point. Pass a null file (e.g. for JSON input) to skip detection.
+ * The key fields are the columns that identify the header row.
+ */
+export const useColumnMapping = (file: File | null, sheetName: string | undefined, fileNameForError: string, keyFields?: ColumnField[]): ColumnMappingState => {
+    const [detected, setDetected] = useState<DetectedColumns | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [appliedProfile, setAppliedProfile] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setDetected(null);
+        setMapping({});
+        setAppliedProfile(null);
+        setError(null);
+        if (!file) return;
+
+        let cancelled = false;
+        detectColumns(file, sheetName, fileNameForError, keyFields)
+            .then(result => {
+                if (cancelled) return;
+                const profile = findProfileForHeaders(result.headers);
+                setDetected(result);
+                setMapping(profile ? profile.mapping : result.guesses);
+                setAppliedProfile(profile ? profile.name : null);
+            })
+            .catch(err => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Could not read the header row.');
+            });
+        return () => { cancelled = true; };
+    }, [file, sheetName, fileNameForError, keyFields]);
+
+    const applyProfile = (name: string | null, profileMapping: ColumnMapping) => {
+        setMapping(profileMapping);
+        setAppliedProfile(name);
+    };
+
+    return { detected, mapping, appliedProfile, error, setMapping, applyProfile };
+};
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Gstr2bType, ReconciliationResult, StoredRun } from '../types';
+import { listRuns, saveRun, loadRunResult, updateRunResult, deleteRun } from '../services/runHistory';
+
+interface RunHistoryState {
+    runs: StoredRun[];
+    /** The stored run the displayed result belongs to, if any. */
+    currentRunId: string | null;
+    error: string | null;
+    record: (files: { booksFile: File; gstr2bFile: File }, gstr2bType: Gstr2bType, result: ReconciliationResult) => Promise<void>;
+    update: (result: ReconciliationResult) => Promise<void>;
+    open: (id: string) => Promise<ReconciliationResult | null>;
+    load: (id: string) => Promise<ReconciliationResult | null>;
+    remove: (id: string) => Promise<void>;
+    reset: () => void;
+}
+
+/**
+ * Keeps the list of reconciliation runs stored in the browser and tracks which one is on
+ * screen. Storage failures (private browsing, quota) are shown as an error but never block
+ * the reconciliation itself.
+ */
+export const useRunHistory = (): RunHistoryState => {
+    const [runs, setRuns] = useState<StoredRun[]>([]);
+    const [currentRunId, setCurrentRunId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const guard = useCallback(async <T>(work: () => Promise<T>): Promise<T | null> => {
+        try {
+            const value = await work();
+            setError(null);
+            return value;
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'The run history is not available.');
+            return null;
+        }
+    }, []);
+
+    const refresh = useCallback(() => guard(async () => setRuns(await listRuns())), [guard]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const record = useCallback(async (files: { booksFile: File; gstr2bFile: File }, gstr2bType: Gstr2bType, result: ReconciliationResult) => {
+        const run = await guard(() => saveRun(files, gstr2bType, result));
+        if (run) setCurrentRunId(run.id);
+        await refresh();
+    }, [guard, refresh]);
+
+    const update = useCallback(async (result: ReconciliationResult) => {
+        if (!currentRunId) return;
+        await guard(() => updateRunResult(currentRunId, result));
+        await refresh();
+    }, [currentRunId, guard, refresh]);
+
+    const load = useCallback((id: string) => guard(() => loadRunResult(id)), [guard]);
+
+    const open = useCallback(async (id: string) => {
+        const result = await load(id);
+        if (result) setCurrentRunId(id);
+        return result;
+    }, [load]);
+
+    const remove = useCallback(async (id: string) => {
+        await guard(() => deleteRun(id));
+        if (id === currentRunId) setCurrentRunId(null);
+        await refresh();
+    }, [currentRunId, guard, refresh]);
+
+    const reset = useCallback(() => setCurrentRunId(null), []);
+
+    return { runs, currentRunId, error, record, update, open, load, remove, reset };
+};
@@ -0,0 +1,205 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { Gstr2bType, ColumnMapping, ColumnMappings, ReconciliationOptions, ToleranceSettings } from '../types';
+import { reconcileData, DEFAULT_RECONCILIATION_OPTIONS, COLUMN_FIELDS } from '../services/reconciliationService';
+import { buildFullWorkbook } from '../services/workbookExport';
+import { validateGstin } from '../services/gstinValidator';
+
+// --- Configuration ---
+
+const MAX_FILE_SIZE_BYTES = 25 * 1024 * 1024;
+// Form fields are small JSON documents (options, column mappings), never file contents.
+const MAX_FIELD_SIZE_BYTES = 64 * 1024;
+
+const GSTR2B_TYPES: Gstr2bType[] = ['B2B', 'CDNR', 'IMPG', 'All', 'Other'];
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_FILE_SIZE_BYTES, files: 2, fields: 10, fieldSize: MAX_FIELD_SIZE_BYTES },
+}).fields([
+    { name: 'books', maxCount: 1 },
+    { name: 'gstr2b', maxCount: 1 },
+]);
+
+/** An error with the HTTP status and machine-readable code it is reported with. */
+export class ApiError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// --- Helper Functions ---
+
+const parseJsonField = (value: unknown, field: string): any => {
+    if (value === undefined || value === '') return undefined;
+    try {
+        return JSON.parse(String(value));
+    } catch (err) {
+        throw new ApiError(400, 'INVALID_FIELD', `The '${field}' field must be valid JSON.`);
+    }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNonNegativeNumber = (value: unknown, field: string): number => {
+    const parsed = Number(value);
+    if (typeof value === 'boolean' || value === null || value === '' || isNaN(parsed) || parsed < 0) {
+        throw new ApiError(400, 'INVALID_OPTIONS', `Option '${field}' must be a non-negative number.`);
+    }
+    return parsed;
+};
+
+const toGstin = (value: unknown, field: string): string => {
+    const check = typeof value === 'string' ? validateGstin(value) : undefined;
+    if (!check?.valid) throw new ApiError(400, 'INVALID_OPTIONS', `Option '${field}' must be a valid GSTIN${check?.problem ? ` (${check.problem})` : ''}.`);
+    return check.gstin;
+};
+
+/** Merges the options sent by the client over the defaults, validating every value given. */
+const parseOptions = (value: unknown): ReconciliationOptions => {
+    const input = parseJsonField(value, 'options') ?? {};
+    if (!isObject(input)) {
+        throw new ApiError(400, 'INVALID_OPTIONS', "The 'options' field must be a JSON object.");
+    }
+
+    const tolerance: ToleranceSettings = { ...DEFAULT_RECONCILIATION_OPTIONS.tolerance };
+    Object.entries(input.tolerance ?? {}).forEach(([head, amount]) => {
+        if (!(head in tolerance)) throw new ApiError(400, 'INVALID_OPTIONS', `Unknown tolerance head '${head}'.`);
+        tolerance[head as keyof ToleranceSettings] = toNonNegativeNumber(amount, `tolerance.${head}`);
+    });
+
+    const flag = (key: 'requireLegalNameMatch' | 'consolidateInvoices' | 'excludeIdenticalCopies'): boolean => {
+        if (input[key] === undefined) return DEFAULT_RECONCILIATION_OPTIONS[key];
+        if (typeof input[key] !== 'boolean') throw new ApiError(400, 'INVALID_OPTIONS', `Option '${key}' must be true or false.`);
+        return input[key];
+    };
+
+    return {
+        tolerance,
+        percentageTolerance: input.percentageTolerance === undefined
+            ? DEFAULT_RECONCILIATION_OPTIONS.percentageTolerance
+            : toNonNegativeNumber(input.percentageTolerance, 'percentageTolerance'),
+        requireLegalNameMatch: flag('requireLegalNameMatch'),
+        consolidateInvoices: flag('consolidateInvoices'),
+        excludeIdenticalCopies: flag('excludeIdenticalCopies'),
+        recipientGstin: input.recipientGstin === undefined || input.recipientGstin === ''
+            ? DEFAULT_RECONCILIATION_OPTIONS.recipientGstin
+            : toGstin(input.recipientGstin, 'recipientGstin'),
+    };
+};
+
+/** Checks the column mappings sent by the client: per side, logical fields mapped to header names. */
+const parseColumnMappings = (value: unknown): ColumnMappings => {
+    const input = parseJsonField(value, 'columnMappings') ?? {};
+    const invalid = (message: string) => new ApiError(400, 'INVALID_COLUMN_MAPPINGS', message);
+    if (!isObject(input)) throw invalid("The 'columnMappings' field must be a JSON object.");
+
+    const mappings: ColumnMappings = {};
+    Object.entries(input).forEach(([side, mapping]) => {
+        if (side !== 'books' && side !== 'gstr2b') throw invalid(`Unknown side 'columnMappings.${side}'; use 'books' or 'gstr2b'.`);
+        if (!isObject(mapping)) throw invalid(`'columnMappings.${side}' must be an object of column names.`);
+        Object.entries(mapping).forEach(([field, header]) => {
+            if (!COLUMN_FIELDS.some(f => f.field === field)) throw invalid(`Unknown field 'columnMappings.${side}.${field}'.`);
+            if (typeof header !== 'string') throw invalid(`'columnMappings.${side}.${field}' must be a column name.`);
+        });
+        mappings[side] = mapping as ColumnMapping;
+    });
+    return mappings;
+};
+
+const uploadedFile = (req: Request, field: 'books' | 'gstr2b'): File => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const file = files?.[field]?.[0];
+    if (!file) throw new ApiError(400, 'MISSING_FILE', `The '${field}' file is required.`);
+    return new File([file.buffer], file.originalname, { type: file.mimetype });
+};
+
+const sendError = (res: Response, error: ApiError) =>
+    res.status(error.status).json({ error: { code: error.code, message: error.message } });
+
+/** Maps multer's limit errors onto API errors; anything else passes through unchanged. */
+const toApiError = (error: unknown): unknown => {
+    if (!(error instanceof multer.MulterError)) return error;
+    if (error.code === 'LIMIT_FILE_SIZE') {
+        return new ApiError(413, 'FILE_TOO_LARGE', `Each file must be at most ${MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB.`);
+    }
+    if (error.code === 'LIMIT_UNEXPECTED_FILE' || error.code === 'LIMIT_FILE_COUNT') {
+        return new ApiError(400, 'UNEXPECTED_FILE', "Only one 'books' and one 'gstr2b' file may be uploaded.");
+    }
+    return new ApiError(413, 'REQUEST_TOO_LARGE', error.message);
+};
+
+// --- Handlers ---
+
+const reconcile = async (req: Request, res: Response) => {
+    const booksFile = uploadedFile(req, 'books');
+    const gstr2bFile = uploadedFile(req, 'gstr2b');
+
+    const gstr2bType = (req.body.gstr2bType || 'B2B') as Gstr2bType;
+    if (!GSTR2B_TYPES.includes(gstr2bType)) {
+        throw new ApiError(400, 'INVALID_GSTR2B_TYPE', `'gstr2bType' must be one of ${GSTR2B_TYPES.join(', ')}.`);
+    }
+    const options = parseOptions(req.body.options);
+    const columnMappings = parseColumnMappings(req.body.columnMappings);
+
+    let result;
+    try {
+        result = await reconcileData(booksFile, gstr2bFile, gstr2bType, options, columnMappings);
+    } catch (error) {
+        // The parsers and the engine report unusable input with messages meant for the user.
+        throw new ApiError(422, 'RECONCILIATION_FAILED', error instanceof Error ? error.message : String(error));
+    }
+
+    if (req.accepts(['application/json', XLSX_MIME]) === XLSX_MIME) {
+        const buffer = await buildFullWorkbook(result).xlsx.writeBuffer();
+        res.type(XLSX_MIME)
+            .attachment('GST_Reconciliation_Workbook.xlsx')
+            .send(Buffer.from(buffer as ArrayBuffer));
+    } else {
+        res.json(result);
+    }
+};
+
+// --- Public API ---
+
+/**
+ * Router for the /api endpoints:
+ * - POST /reconcile: multipart upload with 'books' and 'gstr2b' files and the optional fields
+ *   'gstr2bType', 'options' (JSON) and 'columnMappings' (JSON). Responds with the result as
+ *   JSON, or as the full workbook when the Accept header prefers .xlsx.
+ * - GET /health: liveness check.
+ * Errors are returned as { error: { code, message } }.
+ */
+export const createApiRouter = (): Router => {
+    const router = express.Router();
+
+    router.get('/health', (req, res) => {
+        res.json({ status: 'ok', uptimeSeconds: Math.round(process.uptime()) });
+    });
+
+    router.post('/reconcile', (req, res, next) => {
+        upload(req, res, uploadError => {
+            if (uploadError) {
+                next(toApiError(uploadError));
+                return;
+            }
+            reconcile(req, res).catch(next);
+        });
+    });
+
+    router.use((req, res) => sendError(res, new ApiError(404, 'NOT_FOUND', `No API endpoint at ${req.method} ${req.originalUrl}.`)));
+
+    router.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+        if (error instanceof ApiError) {
+            sendError(res, error);
+            return;
+        }
+        console.error('Unexpected API error:', error);
+        sendError(res, new ApiError(500, 'INTERNAL_ERROR', 'An unexpected error occurred while processing the request.'));
+    });
+
+    return router;
+};
@@ -0,0 +1,64 @@
+import { ColumnMapping, ColumnProfile } from '../types';
+
+const STORAGE_KEY = 'gstReco.columnProfiles';
+
+// --- Helper Functions ---
+
+/**
+ * A header signature identifies a header set regardless of column order, case or spacing,
+ * so a profile still applies when the ERP export shuffles its columns.
+ */
+export const headerSignature = (headers: string[]): string =>
+    headers
+        .map(h => h.trim().toLowerCase().replace(/\s+/g, ' '))
+        .filter(h => h !== '')
+        .sort()
+        .join('|');
+
+const writeProfiles = (profiles: ColumnProfile[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+        console.error('Error saving column profiles:', error);
+    }
+};
+
+// --- Public API ---
+
+export const loadProfiles = (): ColumnProfile[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.error('Error reading column profiles:', error);
+        return [];
+    }
+};
+
+/** Saves a profile, replacing any existing profile with the same name. */
+export const saveProfile = (name: string, headers: string[], mapping: ColumnMapping): ColumnProfile[] => {
+    const profile: ColumnProfile = {
+        name: name.trim(),
+        headerSignature: headerSignature(headers),
+        mapping,
+        savedAt: new Date().toISOString(),
+    };
+    const profiles = [...loadProfiles().filter(p => p.name !== profile.name), profile];
+    writeProfiles(profiles);
+    return profiles;
+};
+
+export const deleteProfile = (name: string): ColumnProfile[] => {
+    const profiles = loadProfiles().filter(p => p.name !== name);
+    writeProfiles(profiles);
+    return profiles;
+};
+
+/** Returns the most recently saved profile whose header set equals the given headers. */
+export const findProfileForHeaders = (headers: string[]): ColumnProfile | undefined => {
+    const signature = headerSignature(headers);
+    return loadProfiles()
+        .filter(p => p.headerSignature === signature)
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt))[0];
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { formatInvoiceDate, parseInvoiceDate, parseReturnPeriod } from './dateUtils';
+
+describe('parseInvoiceDate', () => {
+    it('reads Excel serial numbers', () => {
+        expect(parseInvoiceDate(45383)).toBe('2024-04-01');
+        expect(parseInvoiceDate('45383')).toBe('2024-04-01');
+    });
+
+    it('reads the text formats of GST exports', () => {
+        expect(parseInvoiceDate('01-04-2024')).toBe('2024-04-01');
+        expect(parseInvoiceDate('1/4/24')).toBe('2024-04-01');
+        expect(parseInvoiceDate('01-Apr-2024')).toBe('2024-04-01');
+        expect(parseInvoiceDate('2024-04-01')).toBe('2024-04-01');
+    });
+
+    it('reads Date objects', () => {
+        expect(parseInvoiceDate(new Date(2024, 3, 1))).toBe('2024-04-01');
+    });
+
+    it('rejects values that are not dates', () => {
+        expect(parseInvoiceDate('')).toBeNull();
+        expect(parseInvoiceDate('31-02-2024')).toBeNull();
+        expect(parseInvoiceDate(-5)).toBeNull();
+        expect(parseInvoiceDate('INV-12')).toBeNull();
+    });
+});
+
+describe('parseReturnPeriod', () => {
+    it('reads the period formats of GSTR-2B and books', () => {
+        expect(parseReturnPeriod('042024')).toBe('2024-04');
+        expect(parseReturnPeriod(42024)).toBe('2024-04');
+        expect(parseReturnPeriod('2024-04')).toBe('2024-04');
+        expect(parseReturnPeriod("Apr'24")).toBe('2024-04');
+        expect(parseReturnPeriod('April 2024')).toBe('2024-04');
+    });
+
+    it('reduces a full date to its month', () => {
+        expect(parseReturnPeriod('15-04-2024')).toBe('2024-04');
+    });
+
+    it('rejects a month out of range', () => {
+        expect(parseReturnPeriod('13-2024')).toBeNull();
+    });
+});
+
+describe('formatInvoiceDate', () => {
+    it('shows dates as dd-mm-yyyy', () => {
+        expect(formatInvoiceDate(45383)).toBe('01-04-2024');
+        expect(formatInvoiceDate('2024-04-01')).toBe('01-04-2024');
+    });
+
+    it('shows other values as they are', () => {
+        expect(formatInvoiceDate('pending')).toBe('pending');
+        expect(formatInvoiceDate(undefined)).toBe('');
+    });
+});
@@ -0,0 +1,92 @@
+// --- Configuration ---
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Excel stores dates as days since 1899-12-30; 25569 is the serial of 1970-01-01.
+const EXCEL_EPOCH_OFFSET = 25569;
+const MS_PER_DAY = 86400000;
+
+// --- Helper Functions ---
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const toFullYear = (year: number): number => (year < 100 ? 2000 + year : year);
+
+const monthFromName = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toUpperCase()) + 1;
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+    if (month < 1 || month > 12 || day < 1 || year < 1900) return false;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const fromExcelSerial = (serial: number): string | null => {
+    // Serials below 1 or unreasonably large numbers are not dates (e.g. an amount in the wrong column).
+    if (serial < 1 || serial > 2958465) return null;
+    const date = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * MS_PER_DAY));
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// --- Public API ---
+
+/**
+ * Parses an invoice date from the formats seen in GST exports: Excel serial numbers,
+ * Date objects, 'dd-mm-yyyy', 'dd/mm/yy', 'dd-MMM-yyyy' and ISO 'yyyy-mm-dd'.
+ * Returns an ISO 'YYYY-MM-DD' string, or null when the value is not a recognisable date.
+ */
+export const parseInvoiceDate = (value: any): string | null => {
+    if (value === undefined || value === null || value === '') return null;
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    }
+    if (typeof value === 'number') return fromExcelSerial(value);
+
+    const text = String(value).trim();
+    let m = text.match(/^(\d{4})[\-\/.](\d{1,2})[\-\/.](\d{1,2})/);
+    if (m) {
+        const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+        return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+    }
+    m = text.match(/^(\d{1,2})[\-\/. ]([A-Za-z]{3,9}|\d{1,2})[\-\/. ,']*(\d{2,4})$/);
+    if (m) {
+        const day = Number(m[1]);
+        const month = /^\d+$/.test(m[2]) ? Number(m[2]) : monthFromName(m[2]);
+        const year = toFullYear(Number(m[3]));
+        return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+    }
+    if (/^\d+(\.\d+)?$/.test(text)) return fromExcelSerial(Number(text));
+    return null;
+};
+
+/**
+ * Parses a return period such as '042024', '2024-04', "Apr'24", 'Apr-2024' or 'April 2024'
+ * into 'YYYY-MM'. Full dates are accepted too and reduced to their month.
+ */
+export const parseReturnPeriod = (value: any): string | null => {
+    if (value === undefined || value === null || value === '') return null;
+    const text = String(value).trim();
+
+    // 'MMYYYY' as used by the portal; a numeric cell loses the leading zero, hence 1-2 digits.
+    let m = text.match(/^(\d{1,2})(20\d{2})$/);
+    if (m && Number(m[1]) >= 1 && Number(m[1]) <= 12) return `${m[2]}-${pad(Number(m[1]))}`;
+    m = text.match(/^(\d{4})[\-\/](\d{1,2})$/);
+    if (m && Number(m[2]) >= 1 && Number(m[2]) <= 12) return `${m[1]}-${pad(Number(m[2]))}`;
+    m = text.match(/^(\d{1,2})[\-\/](\d{4})$/);
+    if (m && Number(m[1]) >= 1 && Number(m[1]) <= 12) return `${m[2]}-${pad(Number(m[1]))}`;
+    m = text.match(/^([A-Za-z]{3,9})[\s\-\/',]*(\d{2,4})$/);
+    if (m && monthFromName(m[1]) > 0) return `${toFullYear(Number(m[2]))}-${pad(monthFromName(m[1]))}`;
+
+    const date = parseInvoiceDate(value);
+    return date ? date.slice(0, 7) : null;
+};
+
+/**
+ * Formats an invoice date for display as 'dd-mm-yyyy', the format of the GST portal. Values
+ * that are not a recognisable date are shown as they are.
+ */
+export const formatInvoiceDate = (value: any): string => {
+    const date = parseInvoiceDate(value);
+    if (!date) return String(value ?? '');
+    const [year, month, day] = date.split('-');
+    return `${day}-${month}-${year}`;
+};
@@ -0,0 +1,115 @@
+// --- Configuration ---
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Lines inspected to pick the delimiter; covers the rows searched for the header row.
+const SAMPLE_LINES = 15;
+
+const DELIMITED_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+const DELIMITED_MIME_TYPES = ['text/csv', 'text/tab-separated-values', 'text/plain'];
+
+// --- Helper Functions ---
+
+/**
+ * Decodes the file bytes. A UTF-16 byte order mark wins; otherwise the bytes are read as
+ * UTF-8 and, when they are not valid UTF-8, as Windows-1252 (the usual encoding of CSV
+ * files saved by Excel and older accounting software on Windows).
+ */
+const decodeText = (bytes: Uint8Array): string => {
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch (err) {
+        return new TextDecoder('windows-1252').decode(bytes);
+    }
+};
+
+/** Counts a character on one line, ignoring occurrences inside quoted fields. */
+const countOutsideQuotes = (line: string, char: string): number => {
+    let count = 0;
+    let inQuotes = false;
+    for (const c of line) {
+        if (c === '"') inQuotes = !inQuotes;
+        else if (c === char && !inQuotes) count++;
+    }
+    return count;
+};
+
+/**
+ * Picks the delimiter that splits some line of the sample into the most fields. The header
+ * row is normally the widest line, so title rows above it do not skew the choice.
+ */
+const detectDelimiter = (text: string): string => {
+    const sample = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, SAMPLE_LINES);
+    let best = DELIMITERS[0];
+    let bestCount = 0;
+    DELIMITERS.forEach(delimiter => {
+        const count = Math.max(0, ...sample.map(line => countOutsideQuotes(line, delimiter)));
+        if (count > bestCount) {
+            best = delimiter;
+            bestCount = count;
+        }
+    });
+    return best;
+};
+
+// Empty cells become null, as in sheet_to_json with defval: null.
+const toCell = (value: string): string | null => {
+    const trimmed = value.trim();
+    return trimmed === '' ? null : trimmed;
+};
+
+/** Splits text into rows of cells, honouring quoted fields with embedded delimiters, quotes and line breaks. */
+const splitRows = (text: string, delimiter: string): (string | null)[][] => {
+    const rows: (string | null)[][] = [];
+    let row: (string | null)[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char !== '"') field += char;
+            else if (text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else inQuotes = false;
+        } else if (char === '"' && field.trim() === '') {
+            inQuotes = true;
+            field = '';
+        } else if (char === delimiter) {
+            row.push(toCell(field));
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(toCell(field));
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(toCell(field));
+        rows.push(row);
+    }
+    return rows;
+};
+
+// --- Public API ---
+
+export const isDelimitedTextFile = (file: File): boolean => {
+    const name = file.name.toLowerCase();
+    return DELIMITED_EXTENSIONS.some(ext => name.endsWith(ext)) || DELIMITED_MIME_TYPES.includes(file.type);
+};
+
+/**
+ * Parses a CSV, TSV or similar delimited text export into an array of rows, the same shape
+ * sheet_to_json produces with header: 1, so header detection works unchanged.
+ */
+export const parseDelimitedText = (bytes: Uint8Array): (string | null)[][] => {
+    const text = decodeText(bytes);
+    return splitRows(text, detectDelimiter(text));
+};
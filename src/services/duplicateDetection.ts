@@ -0,0 +1,100 @@
+import { ReconciliationRecord } from '../types';
+import { parseInvoiceDate } from './dateUtils';
+import { SOURCE_ROW_COLUMN } from './preflight';
+
+// --- Configuration ---
+
+// Columns added to each row of the suspected duplicates category.
+export const DUPLICATE_COLUMNS = {
+    group: 'Duplicate Group',
+    side: 'Duplicate Side',
+    reason: 'Duplicate Reason',
+    copy: 'Identical Copy',
+};
+
+export const SUSPECTED_DUPLICATE_STATUS = 'Suspected duplicate';
+
+export interface DuplicateHeaders {
+    gstin: string;
+    billNo: string;
+    /** Column with the document kind, so that a note numbered like an invoice is not a duplicate of it. */
+    kind?: string;
+    invoiceDate?: string;
+    voucherNumber?: string;
+}
+
+export interface SuspectedDuplicates {
+    /** Every line of each suspect invoice, tagged with the duplicate columns. */
+    records: ReconciliationRecord[];
+    /** Lines identical in every column to an earlier line of the same invoice. */
+    copies: Set<ReconciliationRecord>;
+}
+
+// --- Helper Functions ---
+
+const keyOf = (value: any): string => String(value ?? '').trim().toUpperCase();
+
+const distinctCount = (lines: ReconciliationRecord[], value: (line: ReconciliationRecord) => string): number =>
+    new Set(lines.map(value).filter(v => v !== '')).size;
+
+// --- Public API ---
+
+/**
+ * Finds suspected duplicates among the lines of one side before consolidation. The lines of one
+ * invoice (GSTIN, number and document kind) are suspect when some of them are identical in every
+ * column, when they carry different invoice dates, or when they were booked under different
+ * vouchers. Lines of a multi-line invoice differ in their items and share date and voucher, so
+ * they are not reported.
+ *
+ * The identical copies are also returned separately, so that consolidation can leave them out
+ * rather than add them to the invoice again when the user asks for it.
+ */
+export const findSuspectedDuplicates = (
+    lines: ReconciliationRecord[],
+    headers: DuplicateHeaders,
+    side: string,
+    groupPrefix: string
+): SuspectedDuplicates => {
+    const byInvoice = new Map<string, ReconciliationRecord[]>();
+    lines.forEach(line => {
+        const gstin = keyOf(line[headers.gstin]);
+        const billNo = keyOf(line[headers.billNo]);
+        if (!gstin || !billNo) return;
+        const key = `${gstin}|${billNo}|${headers.kind ? line[headers.kind] ?? '' : ''}`;
+        byInvoice.set(key, [...(byInvoice.get(key) ?? []), line]);
+    });
+
+    const records: ReconciliationRecord[] = [];
+    const copies = new Set<ReconciliationRecord>();
+    let groupCount = 0;
+    byInvoice.forEach(invoiceLines => {
+        if (invoiceLines.length < 2) return;
+
+        const seen = new Set<string>();
+        invoiceLines.forEach(line => {
+            const content = JSON.stringify(Object.entries(line).filter(([column]) => column !== SOURCE_ROW_COLUMN));
+            if (seen.has(content)) copies.add(line);
+            else seen.add(content);
+        });
+
+        const { invoiceDate, voucherNumber } = headers;
+        const reasons = [
+            invoiceLines.some(line => copies.has(line)) ? 'Identical rows' : null,
+            invoiceDate && distinctCount(invoiceLines, line => parseInvoiceDate(line[invoiceDate]) ?? '') > 1 ? 'Different invoice dates' : null,
+            voucherNumber && distinctCount(invoiceLines, line => keyOf(line[voucherNumber])) > 1 ? 'Different vouchers' : null,
+        ].filter((reason): reason is string => !!reason);
+        if (reasons.length === 0) return;
+
+        groupCount++;
+        invoiceLines.forEach(line => records.push({
+            'Recon Status': SUSPECTED_DUPLICATE_STATUS,
+            [DUPLICATE_COLUMNS.group]: `${groupPrefix}${groupCount}`,
+            [DUPLICATE_COLUMNS.side]: side,
+            [DUPLICATE_COLUMNS.reason]: reasons.join(', '),
+            [DUPLICATE_COLUMNS.copy]: copies.has(line) ? 'Yes' : 'No',
+            ...line,
+        }));
+    });
+
+    return { records, copies };
+};
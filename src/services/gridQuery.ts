@@ -0,0 +1,100 @@
+import { GridColumnFilter, GridQuery, ReconciliationRecord } from '../types';
+
+// --- Configuration ---
+
+export const EMPTY_GRID_QUERY: GridQuery = { search: '', filters: {}, sort: null };
+
+// --- Helper Functions ---
+
+/** Reads a cell as a number, accepting strings with thousands separators; null when it is not one. */
+const toNumber = (value: any): number | null => {
+    if (typeof value === 'number') return value;
+    if (value === null || value === undefined || String(value).trim() === '') return null;
+    const parsed = Number(String(value).replace(/,/g, ''));
+    return isNaN(parsed) ? null : parsed;
+};
+
+const toText = (value: any): string => value === null || value === undefined ? '' : String(value);
+
+const isFilterActive = (filter: GridColumnFilter): boolean => {
+    if (filter.kind === 'text') return filter.value.trim() !== '';
+    if (filter.kind === 'range') return filter.min !== undefined || filter.max !== undefined;
+    return filter.values.length > 0;
+};
+
+const matchesFilter = (value: any, filter: GridColumnFilter): boolean => {
+    if (filter.kind === 'text') return toText(value).toLowerCase().includes(filter.value.trim().toLowerCase());
+    if (filter.kind === 'values') return filter.values.includes(toText(value));
+    const amount = toNumber(value);
+    if (amount === null) return false;
+    return (filter.min === undefined || amount >= filter.min) && (filter.max === undefined || amount <= filter.max);
+};
+
+/** Numbers sort numerically and before text; empty cells always sort last. */
+const compareCells = (a: any, b: any): number => {
+    const emptyA = toText(a) === '';
+    const emptyB = toText(b) === '';
+    if (emptyA || emptyB) return emptyA === emptyB ? 0 : emptyA ? 1 : -1;
+    const numberA = toNumber(a);
+    const numberB = toNumber(b);
+    if (numberA !== null && numberB !== null) return numberA - numberB;
+    if (numberA !== null) return -1;
+    if (numberB !== null) return 1;
+    return toText(a).localeCompare(toText(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+// --- Public API ---
+
+/**
+ * The union of the keys of all records, in order of first appearance. Records from different
+ * categories carry different columns (e.g. only-in-2B rows have no book columns), so the
+ * keys of the first record are not enough.
+ */
+export const collectColumns = (records: ReconciliationRecord[]): string[] => {
+    const columns = new Set<string>();
+    records.forEach(record => Object.keys(record).forEach(key => columns.add(key)));
+    return Array.from(columns);
+};
+
+/** A column is numeric when every non-empty cell in it reads as a number. */
+export const isNumericColumn = (records: ReconciliationRecord[], column: string): boolean => {
+    let seen = false;
+    for (const record of records) {
+        const value = record[column];
+        if (toText(value).trim() === '') continue;
+        if (toNumber(value) === null) return false;
+        seen = true;
+    }
+    return seen;
+};
+
+/** The distinct non-empty values of a column, sorted; used for pick-list filters such as 'Recon Status'. */
+export const distinctValues = (records: ReconciliationRecord[], column: string): string[] =>
+    Array.from(new Set(records.map(record => toText(record[column])).filter(value => value !== ''))).sort();
+
+/** Applies the search, column filters and sort of a grid query. The input is not modified. */
+export const applyGridQuery = (records: ReconciliationRecord[], query: GridQuery): ReconciliationRecord[] => {
+    const search = query.search.trim().toLowerCase();
+    const filters = Object.entries(query.filters).filter(([, filter]) => isFilterActive(filter));
+
+    const rows = records.filter(record =>
+        filters.every(([column, filter]) => matchesFilter(record[column], filter)) &&
+        (!search || Object.values(record).some(value => toText(value).toLowerCase().includes(search)))
+    );
+
+    if (query.sort) {
+        const { column, direction } = query.sort;
+        const sign = direction === 'asc' ? 1 : -1;
+        // Array.prototype.sort is stable, so equal cells keep the report order.
+        rows.sort((a, b) => {
+            const order = compareCells(a[column], b[column]);
+            // Empty cells stay last whichever way the column is sorted.
+            return toText(a[column]) === '' || toText(b[column]) === '' ? order : order * sign;
+        });
+    }
+    return rows;
+};
+
+/** The records reduced to the given columns in that order, for exporting exactly what the grid shows. */
+export const projectColumns = (records: ReconciliationRecord[], columns: string[]): ReconciliationRecord[] =>
+    records.map(record => Object.fromEntries(columns.map(column => [column, record[column] ?? null])));
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { findGroupMatches } from './groupMatcher';
+
+// Rows are their own amount vectors: taxable value and IGST.
+const byAmounts = (targets: number[][], candidates: number[][]) => findGroupMatches({
+    targets,
+    candidates,
+    targetAmounts: row => row,
+    candidateAmounts: row => row,
+    agrees: (sum, target) => sum.every((value, i) => Math.abs(value - target[i]) <= 1),
+});
+
+describe('findGroupMatches', () => {
+    it('finds candidates that together equal a target', () => {
+        const matches = byAmounts([[1500, 270]], [[1000, 180], [700, 126], [500, 90]]);
+        expect(matches).toEqual([{ target: [1500, 270], members: [[1000, 180], [500, 90]] }]);
+    });
+
+    it('uses each candidate once', () => {
+        const matches = byAmounts([[300, 54], [300, 54]], [[200, 36], [100, 18], [50, 9]]);
+        expect(matches).toHaveLength(1);
+    });
+
+    it('needs at least two members and every head to agree', () => {
+        expect(byAmounts([[1000, 180]], [[1000, 180], [5, 1]])).toEqual([]);
+        expect(byAmounts([[1500, 270]], [[1000, 180], [500, 80]])).toEqual([]);
+    });
+
+    it('does not mix credit notes into invoice groups', () => {
+        expect(byAmounts([[500, 90]], [[700, 126], [-200, -36]])).toEqual([]);
+    });
+
+    it('does not search groups of more than five rows', () => {
+        const six = Array.from({ length: 6 }, () => [100, 18]);
+        expect(byAmounts([[600, 108]], six)).toEqual([]);
+        expect(byAmounts([[500, 90]], six)).toHaveLength(1);
+    });
+
+    it('skips suppliers with too many candidates', () => {
+        const candidates = Array.from({ length: 41 }, () => [100, 18]);
+        expect(byAmounts([[200, 36]], candidates)).toEqual([]);
+    });
+
+    it('gives up on targets that cannot be matched without searching for long', () => {
+        const candidates = Array.from({ length: 40 }, (_, i) => [100 + i * 0.37, 0]);
+        const targets = Array.from({ length: 500 }, (_, i) => [450.005 + i * 0.013, 5]);
+        const started = Date.now();
+        expect(byAmounts(targets, candidates)).toEqual([]);
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+});
@@ -0,0 +1,100 @@
+// --- Configuration ---
+
+// Groups larger than this are not searched; the number of combinations grows too fast and
+// a large coincidental sum is more likely to be a false positive than a real split.
+const MAX_GROUP_SIZE = 5;
+
+// Per-GSTIN candidate cap. Beyond this the combinatorial search is skipped for that supplier.
+const MAX_CANDIDATES = 40;
+
+// Combinations tried per call, over all of its targets. A supplier with many targets and
+// candidates close in value could otherwise take minutes; once the budget is spent the
+// remaining targets are left unmatched.
+const MAX_VISITS = 200000;
+
+export interface GroupMatch<T> {
+    target: T;
+    members: T[];
+}
+
+export interface GroupMatchInput<T> {
+    /** Rows that may be covered by a group from the other side. */
+    targets: T[];
+    /** Rows that may be combined into groups. */
+    candidates: T[];
+    /** Amount vector (taxable, IGST, CGST, SGST, cess) of a target row. */
+    targetAmounts: (row: T) => number[];
+    /** Amount vector of a candidate row, in the same order. */
+    candidateAmounts: (row: T) => number[];
+    /** Decides whether a candidate sum agrees with a target's amounts, head by head. */
+    agrees: (sum: number[], target: number[]) => boolean;
+}
+
+// --- Helper Functions ---
+
+const addVectors = (a: number[], b: number[]): number[] => a.map((value, i) => value + (b[i] ?? 0));
+
+/**
+ * Depth-first search for a combination of at least two candidates whose amounts sum to
+ * the target. Candidates are sorted by taxable value descending so that the search can stop
+ * as soon as the running taxable total overshoots (all amounts are assumed to share a sign).
+ * Each combination tried takes one visit from the budget; the search gives up when it runs out.
+ */
+const searchCombination = (
+    target: number[],
+    pool: { index: number; amounts: number[] }[],
+    agrees: (sum: number[], target: number[]) => boolean,
+    budget: { visits: number }
+): number[] | null => {
+    const targetTaxable = Math.abs(target[0]);
+    const slack = Math.max(1, targetTaxable * 0.01);
+
+    const visit = (start: number, chosen: number[], sum: number[]): number[] | null => {
+        if (budget.visits-- <= 0) return null;
+        if (chosen.length >= 2 && agrees(sum, target)) return chosen;
+        if (chosen.length >= MAX_GROUP_SIZE) return null;
+
+        for (let i = start; i < pool.length; i++) {
+            const next = addVectors(sum, pool[i].amounts);
+            if (Math.abs(next[0]) > targetTaxable + slack) continue;
+            const found = visit(i + 1, [...chosen, pool[i].index], next);
+            if (found) return found;
+        }
+        return null;
+    };
+
+    return visit(0, [], target.map(() => 0));
+};
+
+// --- Public API ---
+
+/**
+ * Finds groups of candidate rows whose totals equal a single target row. Each candidate is
+ * used at most once. Callers are expected to pass rows of one supplier only. The search is
+ * bounded by MAX_VISITS, so a supplier with too many rows may get fewer groups than exist.
+ */
+export const findGroupMatches = <T>(input: GroupMatchInput<T>): GroupMatch<T>[] => {
+    const { targets, candidates, targetAmounts, candidateAmounts, agrees } = input;
+    if (targets.length === 0 || candidates.length < 2 || candidates.length > MAX_CANDIDATES) return [];
+
+    const used = new Set<number>();
+    const matches: GroupMatch<T>[] = [];
+    const budget = { visits: MAX_VISITS };
+
+    targets.forEach(target => {
+        if (budget.visits <= 0) return;
+        const amounts = targetAmounts(target);
+        const pool = candidates
+            .map((row, index) => ({ index, amounts: candidateAmounts(row) }))
+            .filter(c => !used.has(c.index) && Math.sign(c.amounts[0]) === Math.sign(amounts[0]))
+            .sort((a, b) => Math.abs(b.amounts[0]) - Math.abs(a.amounts[0]));
+
+        const combination = searchCombination(amounts, pool, agrees, budget);
+        if (combination) {
+            combination.forEach(index => used.add(index));
+            matches.push({ target, members: combination.map(index => candidates[index]) });
+        }
+    });
+
+    return matches;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createNearMissIndex, validateGstin } from './gstinValidator';
+
+describe('validateGstin', () => {
+    it('accepts GSTINs with a correct check character', () => {
+        expect(validateGstin('27AAPFU0939F1ZV')).toEqual({ gstin: '27AAPFU0939F1ZV', valid: true, stateCode: '27', state: 'Maharashtra' });
+        expect(validateGstin('29AAGCB7383J1Z4').valid).toBe(true);
+    });
+
+    it('cleans spaces and case before checking', () => {
+        expect(validateGstin(' 27aapfu0939f1zv ').valid).toBe(true);
+    });
+
+    it('reports a wrong check character with the expected one', () => {
+        const check = validateGstin('27AAPFU0939F1ZW');
+        expect(check.valid).toBe(false);
+        expect(check.problem).toBe('Check character is W, should be V');
+        expect(check.state).toBe('Maharashtra');
+    });
+
+    it('reports the first part that is wrong', () => {
+        expect(validateGstin('27AAPFU0939F1Z').problem).toBe('Has 14 characters, not 15');
+        expect(validateGstin('00AAPFU0939F1ZV').problem).toBe('00 is not a state code');
+        expect(validateGstin('27AAPXU0939F1ZV').problem).toBe('AAPXU0939F is not a PAN');
+        expect(validateGstin('27AAPFU0939F1YV').problem).toBe("1Y is not an entity number followed by 'Z'");
+    });
+});
+
+describe('createNearMissIndex', () => {
+    it('finds GSTINs one character off, valid ones first', () => {
+        const nearMisses = createNearMissIndex(['27AAPFU0939F1ZW', '27AAPFU0939F1ZV', '29AAGCB7383J1Z4']);
+        expect(nearMisses('27AAPFU0939F1ZX')).toEqual(['27AAPFU0939F1ZV', '27AAPFU0939F1ZW']);
+    });
+
+    it('does not return the GSTIN itself or ones further off', () => {
+        const nearMisses = createNearMissIndex(['27AAPFU0939F1ZV', '29AAGCB7383J1Z4']);
+        expect(nearMisses('27AAPFU0939F1ZV')).toEqual([]);
+        expect(nearMisses('27AAPFU0939F2YV')).toEqual([]);
+    });
+});
@@ -0,0 +1,146 @@
+// --- Configuration ---
+
+// State and territory codes that open a GSTIN.
+export const GST_STATES: Record<string, string> = {
+    '01': 'Jammu and Kashmir',
+    '02': 'Himachal Pradesh',
+    '03': 'Punjab',
+    '04': 'Chandigarh',
+    '05': 'Uttarakhand',
+    '06': 'Haryana',
+    '07': 'Delhi',
+    '08': 'Rajasthan',
+    '09': 'Uttar Pradesh',
+    '10': 'Bihar',
+    '11': 'Sikkim',
+    '12': 'Arunachal Pradesh',
+    '13': 'Nagaland',
+    '14': 'Manipur',
+    '15': 'Mizoram',
+    '16': 'Tripura',
+    '17': 'Meghalaya',
+    '18': 'Assam',
+    '19': 'West Bengal',
+    '20': 'Jharkhand',
+    '21': 'Odisha',
+    '22': 'Chhattisgarh',
+    '23': 'Madhya Pradesh',
+    '24': 'Gujarat',
+    '25': 'Daman and Diu',
+    '26': 'Dadra and Nagar Haveli and Daman and Diu',
+    '27': 'Maharashtra',
+    '28': 'Andhra Pradesh (old)',
+    '29': 'Karnataka',
+    '30': 'Goa',
+    '31': 'Lakshadweep',
+    '32': 'Kerala',
+    '33': 'Tamil Nadu',
+    '34': 'Puducherry',
+    '35': 'Andaman and Nicobar Islands',
+    '36': 'Telangana',
+    '37': 'Andhra Pradesh',
+    '38': 'Ladakh',
+    '97': 'Other Territory',
+    '99': 'Centre Jurisdiction',
+};
+
+// Columns added to "Only in Books" records whose GSTIN is one character off a GSTR-2B GSTIN.
+export const GSTIN_SUGGESTION_COLUMNS = {
+    gstin: 'Suggested GSTIN',
+    note: 'Suggestion Note',
+};
+
+const GSTIN_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// PAN: three letters, the holder type (company, firm, individual, ...), the initial of the
+// holder's name, four digits and a check letter.
+const PAN_PATTERN = /^[A-Z]{3}[ABCEFGHJKLPT][A-Z]\d{4}[A-Z]$/;
+
+// Registration number under the same PAN and the fixed 'Z' that follows it.
+const ENTITY_PATTERN = /^[1-9A-Z]Z$/;
+
+export interface GstinCheck {
+    /** The GSTIN without spaces, in capitals. */
+    gstin: string;
+    valid: boolean;
+    /** Two-digit state code, when the GSTIN opens with a known one. */
+    stateCode?: string;
+    state?: string;
+    /** Why the GSTIN is invalid. */
+    problem?: string;
+}
+
+// --- Helper Functions ---
+
+const cleanGstin = (value: any): string => String(value ?? '').replace(/\s/g, '').toUpperCase();
+
+/**
+ * The check character of a GSTIN, computed over its first 14 characters: each character's
+ * value in base 36 is weighted 1 and 2 alternately, the digits of each product in base 36 are
+ * summed, and the check character brings the total to a multiple of 36.
+ */
+const checkCharacter = (gstin: string): string => {
+    let sum = 0;
+    for (let i = 0; i < 14; i++) {
+        const product = GSTIN_CHARACTERS.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+        sum += Math.floor(product / 36) + (product % 36);
+    }
+    return GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+};
+
+// --- Public API ---
+
+/**
+ * Checks a GSTIN: 15 characters, a known state code, a PAN, the entity number and 'Z', and
+ * the check character. The state is derived whenever the state code is known, even if a later
+ * part of the GSTIN is wrong.
+ */
+export const validateGstin = (value: any): GstinCheck => {
+    const gstin = cleanGstin(value);
+    const stateCode = gstin.slice(0, 2);
+    const state = GST_STATES[stateCode];
+    const check = (problem?: string): GstinCheck => ({
+        gstin,
+        valid: !problem,
+        ...(state ? { stateCode, state } : {}),
+        ...(problem ? { problem } : {}),
+    });
+
+    if (gstin.length !== 15) return check(`Has ${gstin.length} characters, not 15`);
+    if (!/^[0-9A-Z]+$/.test(gstin)) return check('Has characters other than letters and digits');
+    if (!state) return check(`${stateCode} is not a state code`);
+    if (!PAN_PATTERN.test(gstin.slice(2, 12))) return check(`${gstin.slice(2, 12)} is not a PAN`);
+    if (!ENTITY_PATTERN.test(gstin.slice(12, 14))) return check(`${gstin.slice(12, 14)} is not an entity number followed by 'Z'`);
+    const expected = checkCharacter(gstin);
+    if (gstin[14] !== expected) return check(`Check character is ${gstin[14]}, should be ${expected}`);
+    return check();
+};
+
+/**
+ * Indexes a set of GSTINs for near-miss lookups. The returned function gives the GSTINs of the
+ * set that differ from the one asked for in exactly one character, valid ones first.
+ */
+export const createNearMissIndex = (gstins: Iterable<any>): (gstin: any) => string[] => {
+    // Each GSTIN is filed under its 15 patterns with one character blanked out; two GSTINs
+    // one character apart share exactly one pattern.
+    const byPattern = new Map<string, Set<string>>();
+    new Set(Array.from(gstins, cleanGstin)).forEach(gstin => {
+        if (gstin.length !== 15) return;
+        for (let i = 0; i < 15; i++) {
+            const pattern = `${gstin.slice(0, i)}*${gstin.slice(i + 1)}`;
+            byPattern.set(pattern, (byPattern.get(pattern) ?? new Set()).add(gstin));
+        }
+    });
+
+    return (value: any) => {
+        const gstin = cleanGstin(value);
+        if (gstin.length !== 15) return [];
+        const matches = new Set<string>();
+        for (let i = 0; i < 15; i++) {
+            byPattern.get(`${gstin.slice(0, i)}*${gstin.slice(i + 1)}`)?.forEach(candidate => {
+                if (candidate !== gstin) matches.add(candidate);
+            });
+        }
+        return Array.from(matches).sort((a, b) => Number(validateGstin(b).valid) - Number(validateGstin(a).valid));
+    };
+};
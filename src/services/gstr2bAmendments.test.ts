@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { AMENDED_COLUMN, AmendmentHeaders, ORIGINAL_PREFIX, applyAmendments, isAmendment } from './gstr2bAmendments';
+
+const HEADERS: AmendmentHeaders = {
+    gstin: 'GSTIN',
+    billNo: 'Invoice Number',
+    invoiceDate: 'Invoice Date',
+    originalBillNo: 'Original Invoice Number',
+    originalDate: 'Original Invoice Date',
+    amounts: ['Taxable Value'],
+};
+
+const original = (billNo: string, taxable: number, date = '01-04-2024') =>
+    ({ 'GSTIN': '27AAPFU0939F1ZV', 'Invoice Number': billNo, 'Invoice Date': date, 'Taxable Value': taxable });
+
+describe('isAmendment', () => {
+    it('recognises the amendment sections in any case', () => {
+        expect(isAmendment({ Section: 'b2ba' }, 'Section')).toBe(true);
+        expect(isAmendment({ Section: 'CDNRA' }, 'Section')).toBe(true);
+        expect(isAmendment({ Section: 'B2B' }, 'Section')).toBe(false);
+    });
+});
+
+describe('applyAmendments', () => {
+    it('returns the originals when there are no amendments', () => {
+        const originals = [original('1', 100)];
+        expect(applyAmendments(originals, [], HEADERS)).toBe(originals);
+    });
+
+    it('replaces every line of the original with the amendment and keeps the original amounts', () => {
+        const amendment = { ...original('1A', 250), 'Original Invoice Number': '1', 'Original Invoice Date': '01/04/2024' };
+        const result = applyAmendments([original('1', 100), original('1', 50), original('2', 70)], [amendment], HEADERS);
+
+        expect(result.map(row => row['Invoice Number'])).toEqual(['2', '1A']);
+        expect(result[1][AMENDED_COLUMN]).toBe('Yes');
+        expect(result[1][`${ORIGINAL_PREFIX}Taxable Value`]).toBe(150);
+    });
+
+    it('leaves an original of another date in place', () => {
+        const amendment = { ...original('1', 90), 'Original Invoice Number': '1', 'Original Invoice Date': '02-04-2024' };
+        const result = applyAmendments([original('1', 100)], [amendment], HEADERS);
+
+        expect(result).toHaveLength(2);
+        expect(result[1][`${ORIGINAL_PREFIX}Taxable Value`]).toBeUndefined();
+    });
+
+    it('keeps an amendment of a document from an earlier month, flagged', () => {
+        const amendment = { ...original('9', 90), 'Original Invoice Number': '8' };
+        const result = applyAmendments([original('1', 100)], [amendment], HEADERS);
+
+        expect(result.map(row => row['Invoice Number'])).toEqual(['1', '9']);
+        expect(result[1][AMENDED_COLUMN]).toBe('Yes');
+    });
+});
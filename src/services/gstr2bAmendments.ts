@@ -0,0 +1,95 @@
+import { Gstr2bType, ReconciliationRecord } from '../types';
+import { parseInvoiceDate } from './dateUtils';
+
+// --- Configuration ---
+
+// Sections of the portal JSON that revise documents reported earlier.
+export const AMENDMENT_SECTIONS = ['B2BA', 'CDNRA', 'ECOMA', 'ISDA'];
+
+// Amendment sheet of the Excel download read alongside each report type.
+export const AMENDMENT_SHEETS: Partial<Record<Gstr2bType, string>> = {
+    B2B: 'B2BA',
+    CDNR: 'CDNRA',
+};
+
+// Column set to 'Yes' on every GSTR-2B record that carries amended values.
+export const AMENDED_COLUMN = 'Amended in 2B';
+
+// Prefix of the columns holding the values before the amendment. The amendment sheets use the
+// same prefix for the original document number and date.
+export const ORIGINAL_PREFIX = 'Original ';
+
+export interface AmendmentHeaders {
+    gstin: string;
+    billNo: string;
+    invoiceDate?: string;
+    /** Header of the amended document's original number in the amendment records. */
+    originalBillNo?: string;
+    originalDate?: string;
+    amounts: string[];
+}
+
+// --- Helper Functions ---
+
+const toNumber = (value: any): number => {
+    const parsed = parseFloat(String(value ?? '').replace(/,/g, ''));
+    return isNaN(parsed) ? 0 : parsed;
+};
+
+const documentKey = (gstin: any, billNo: any): string =>
+    `${String(gstin ?? '').replace(/\s/g, '').toUpperCase()}|${String(billNo ?? '').replace(/\s/g, '').toUpperCase()}`;
+
+// --- Public API ---
+
+export const isAmendment = (record: ReconciliationRecord, sectionColumn: string): boolean =>
+    AMENDMENT_SECTIONS.includes(String(record[sectionColumn] ?? '').toUpperCase());
+
+/**
+ * Applies amendment records over the records they revise, so that matching sees the revised
+ * values only. An amendment is linked to its original by GSTIN and original document number,
+ * and by the original date when both sides have one. All lines of the original are replaced by
+ * all lines of the amendment; each amended line keeps the original's amounts (summed over its
+ * lines) under ORIGINAL_PREFIX. An amendment whose original is not in this GSTR-2B, usually one
+ * reported in an earlier month, is kept as it is and still flagged.
+ */
+export const applyAmendments = (
+    originals: ReconciliationRecord[],
+    amendments: ReconciliationRecord[],
+    headers: AmendmentHeaders
+): ReconciliationRecord[] => {
+    if (amendments.length === 0) return originals;
+
+    const originalsByKey = new Map<string, ReconciliationRecord[]>();
+    originals.forEach(row => {
+        const key = documentKey(row[headers.gstin], row[headers.billNo]);
+        originalsByKey.set(key, [...(originalsByKey.get(key) ?? []), row]);
+    });
+
+    // A multi-line amendment revises one document; its lines are applied together.
+    const amendmentsByKey = new Map<string, ReconciliationRecord[]>();
+    amendments.forEach(row => {
+        const originalNumber = headers.originalBillNo && row[headers.originalBillNo] ? row[headers.originalBillNo] : row[headers.billNo];
+        const key = documentKey(row[headers.gstin], originalNumber);
+        amendmentsByKey.set(key, [...(amendmentsByKey.get(key) ?? []), row]);
+    });
+
+    const replaced = new Set<ReconciliationRecord>();
+    const amended: ReconciliationRecord[] = [];
+    amendmentsByKey.forEach((rows, key) => {
+        const originalDate = headers.originalDate ? parseInvoiceDate(rows[0][headers.originalDate]) : null;
+        const revised = (originalsByKey.get(key) ?? []).filter(row => {
+            if (replaced.has(row)) return false;
+            const date = headers.invoiceDate ? parseInvoiceDate(row[headers.invoiceDate]) : null;
+            return !originalDate || !date || date === originalDate;
+        });
+        revised.forEach(row => replaced.add(row));
+
+        const originalValues = revised.length === 0 ? {} : Object.fromEntries(headers.amounts.map(header => [
+            `${ORIGINAL_PREFIX}${header}`,
+            Math.round(revised.reduce((sum, row) => sum + toNumber(row[header]), 0) * 100) / 100,
+        ]));
+        rows.forEach(row => amended.push({ ...row, [AMENDED_COLUMN]: 'Yes', ...originalValues }));
+    });
+
+    return [...originals.filter(row => !replaced.has(row)), ...amended];
+};
@@ -0,0 +1,204 @@
+import { ColumnMapping, ReconciliationRecord } from '../types';
+
+// --- Configuration ---
+
+// Column names used for records built from the portal JSON. They mirror the headers of the
+// GSTR-2B Excel download so the rest of the pipeline resolves them through COLUMN_ALIASES.
+const JSON_COLUMNS = {
+    section: 'Section',
+    returnPeriod: 'GSTR-2B Period',
+    recipientGstin: 'GSTIN of Recipient',
+    gstin: 'GSTIN of Supplier',
+    legalName: 'Trade/Legal name of the supplier',
+    documentType: 'Document Type',
+    billNo: 'Document Number',
+    documentDate: 'Document Date',
+    documentValue: 'Document Value (₹)',
+    originalBillNo: 'Original Document Number',
+    originalDate: 'Original Document Date',
+    placeOfSupply: 'Place of supply',
+    portCode: 'Port Code',
+    reverseCharge: 'Supply Attract Reverse Charge',
+    taxableValue: 'Taxable Value (₹)',
+    integratedTax: 'Integrated Tax(₹)',
+    centralTax: 'Central Tax(₹)',
+    stateTax: 'State/UT Tax(₹)',
+    cess: 'Cess(₹)',
+    supplierPeriod: 'GSTR-1/IFF/GSTR-5 Period',
+    supplierFilingDate: 'GSTR-1/IFF/GSTR-5 Filing Date',
+    itcAvailability: 'ITC Availability',
+    reason: 'Reason',
+};
+
+// Tags each JSON record with the GSTR-2B section it was read from (B2B, CDNR, ISD, IMPG, ...).
+export const SECTION_COLUMN = JSON_COLUMNS.section;
+
+// Tags each JSON record with the GSTIN the GSTR-2B was generated for.
+export const RECIPIENT_GSTIN_COLUMN = JSON_COLUMNS.recipientGstin;
+
+// Bill of entry fields of IMPG and IMPGSEZ records, which share the document columns.
+export const BILL_OF_ENTRY_MAPPING: ColumnMapping = {
+    portCode: JSON_COLUMNS.portCode,
+    billOfEntryNumber: JSON_COLUMNS.billNo,
+    billOfEntryDate: JSON_COLUMNS.documentDate,
+};
+
+const NOTE_TYPES: Record<string, string> = { C: 'Credit Note', D: 'Debit Note' };
+
+// --- Helper Functions ---
+
+const toNumber = (value: any): number => {
+    const parsed = parseFloat(String(value ?? 0));
+    return isNaN(parsed) ? 0 : parsed;
+};
+
+const toYesNo = (value: any): string | null => {
+    if (value === undefined || value === null || value === '') return null;
+    const upper = String(value).toUpperCase();
+    return upper === 'Y' ? 'Yes' : upper === 'N' ? 'No' : String(value);
+};
+
+/**
+ * Creates a record carrying every JSON column, so that all rows share the same header set
+ * regardless of which section they come from. Credit notes are given negative amounts to
+ * follow the same sign convention as the purchase register.
+ */
+const buildRecord = (section: string, returnPeriod: string | null, supplier: any, doc: any, fields: {
+    documentType: string;
+    billNo: any;
+    documentDate: any;
+    originalBillNo?: any;
+    originalDate?: any;
+}): ReconciliationRecord => {
+    const sign = fields.documentType === NOTE_TYPES.C ? -1 : 1;
+    const amount = (value: any) => sign * toNumber(value) || 0;
+
+    return {
+        [JSON_COLUMNS.section]: section,
+        [JSON_COLUMNS.returnPeriod]: returnPeriod,
+        [JSON_COLUMNS.gstin]: supplier?.ctin ?? null,
+        [JSON_COLUMNS.legalName]: supplier?.trdnm ?? null,
+        [JSON_COLUMNS.documentType]: fields.documentType,
+        [JSON_COLUMNS.billNo]: fields.billNo ?? null,
+        [JSON_COLUMNS.documentDate]: fields.documentDate ?? null,
+        [JSON_COLUMNS.documentValue]: amount(doc.val),
+        [JSON_COLUMNS.originalBillNo]: fields.originalBillNo ?? null,
+        [JSON_COLUMNS.originalDate]: fields.originalDate ?? null,
+        [JSON_COLUMNS.placeOfSupply]: doc.pos ?? null,
+        [JSON_COLUMNS.portCode]: doc.portcode ?? null,
+        [JSON_COLUMNS.reverseCharge]: toYesNo(doc.rev),
+        [JSON_COLUMNS.taxableValue]: amount(doc.txval),
+        [JSON_COLUMNS.integratedTax]: amount(doc.igst),
+        [JSON_COLUMNS.centralTax]: amount(doc.cgst),
+        [JSON_COLUMNS.stateTax]: amount(doc.sgst),
+        [JSON_COLUMNS.cess]: amount(doc.cess),
+        [JSON_COLUMNS.supplierPeriod]: supplier?.supprd ?? null,
+        [JSON_COLUMNS.supplierFilingDate]: supplier?.supfildt ?? null,
+        [JSON_COLUMNS.itcAvailability]: toYesNo(doc.itcavl ?? doc.itcelg),
+        [JSON_COLUMNS.reason]: doc.rsn || null,
+    };
+};
+
+const asArray = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+// --- Section Readers ---
+// Each reader flattens one `docdata` section into records. Supplier-level sections hold the
+// documents in a nested list (inv, nt, doclist, boe); import sections are flat.
+
+const readInvoices = (section: string) => (suppliers: any[], returnPeriod: string | null): ReconciliationRecord[] =>
+    suppliers.flatMap(supplier => asArray(supplier.inv).map(inv => buildRecord(section, returnPeriod, supplier, inv, {
+        documentType: 'Invoice',
+        billNo: inv.inum,
+        documentDate: inv.dt,
+        originalBillNo: inv.oinum,
+        originalDate: inv.oidt,
+    })));
+
+const readNotes = (section: string) => (suppliers: any[], returnPeriod: string | null): ReconciliationRecord[] =>
+    suppliers.flatMap(supplier => asArray(supplier.nt).map(nt => buildRecord(section, returnPeriod, supplier, nt, {
+        documentType: NOTE_TYPES[String(nt.typ ?? '').toUpperCase()] ?? 'Note',
+        billNo: nt.ntnum,
+        documentDate: nt.dt,
+        originalBillNo: nt.ontnum,
+        originalDate: nt.ontdt,
+    })));
+
+const readIsdDocuments = (section: string) => (suppliers: any[], returnPeriod: string | null): ReconciliationRecord[] =>
+    suppliers.flatMap(supplier => asArray(supplier.doclist).map(doc => buildRecord(section, returnPeriod, supplier, doc, {
+        documentType: String(doc.doctyp ?? '').toUpperCase() === 'C' ? NOTE_TYPES.C : 'ISD Invoice',
+        billNo: doc.docnum,
+        documentDate: doc.docdt,
+        originalBillNo: doc.oinvnum ?? doc.odocnum,
+        originalDate: doc.oinvdt ?? doc.odocdt,
+    })));
+
+const readBillsOfEntry = (section: string) => (entries: any[], returnPeriod: string | null): ReconciliationRecord[] =>
+    entries.flatMap(entry => {
+        // IMPGSEZ groups bills of entry under the SEZ supplier; IMPG lists them directly.
+        const boes = entry.boe ? asArray(entry.boe) : [entry];
+        return boes.map(boe => buildRecord(section, returnPeriod, entry.ctin ? entry : null, boe, {
+            documentType: 'Bill of Entry',
+            billNo: boe.boenum,
+            documentDate: boe.boedt,
+        }));
+    });
+
+const SECTION_READERS: Record<string, (entries: any[], returnPeriod: string | null) => ReconciliationRecord[]> = {
+    b2b: readInvoices('B2B'),
+    b2ba: readInvoices('B2BA'),
+    cdnr: readNotes('CDNR'),
+    cdnra: readNotes('CDNRA'),
+    ecom: readInvoices('ECOM'),
+    ecoma: readInvoices('ECOMA'),
+    isd: readIsdDocuments('ISD'),
+    isda: readIsdDocuments('ISDA'),
+    impg: readBillsOfEntry('IMPG'),
+    impgsez: readBillsOfEntry('IMPGSEZ'),
+};
+
+// --- Main Parsing Logic ---
+
+/**
+ * Converts the parsed GSTR-2B JSON into records. Accepts both the portal download, where
+ * everything sits under `data`, and the bare `docdata` payload returned by GSP APIs.
+ */
+export const recordsFromGstr2bJson = (json: any, fileNameForError: string): ReconciliationRecord[] => {
+    const docdata = json?.data?.docdata ?? json?.docdata;
+    const returnPeriod = json?.data?.rtnprd ?? json?.rtnprd ?? null;
+    const recipientGstin = json?.data?.gstin ?? json?.gstin ?? null;
+    if (!docdata || typeof docdata !== 'object') {
+        throw new Error(`The JSON file '${fileNameForError}' does not look like a GSTR-2B download: 'docdata' was not found.`);
+    }
+
+    const records = Object.entries(docdata).flatMap(([section, entries]) => {
+        const reader = SECTION_READERS[section.toLowerCase()];
+        return reader ? reader(asArray(entries), returnPeriod) : [];
+    }).map(record => ({ ...record, [JSON_COLUMNS.recipientGstin]: recipientGstin }));
+
+    if (records.length === 0) {
+        throw new Error(`The GSTR-2B JSON '${fileNameForError}' contains no documents in any section.`);
+    }
+    return records;
+};
+
+export const parseGstr2bJsonFile = (file: File, fileNameForError: string): Promise<ReconciliationRecord[]> => {
+    return new Promise((resolve, reject) => {
+        file.text().then(text => {
+            let json: any;
+            try {
+                json = JSON.parse(text);
+            } catch (err) {
+                reject(new Error(`Failed to parse ${fileNameForError}. Please ensure it is the GSTR-2B JSON downloaded from the GST portal.`));
+                return;
+            }
+            try {
+                resolve(recordsFromGstr2bJson(json, fileNameForError));
+            } catch (err) {
+                reject(err);
+            }
+        }, () => reject(new Error(`Failed to read the file: ${fileNameForError}.`)));
+    });
+};
+
+export const isJsonFile = (file: File): boolean =>
+    file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping, ReconciliationRecord, ReconciliationResult } from '../types';
+import { computeGstr3bItc, DEFAULT_GSTR3B_POLICY } from './gstr3bItc';
+import { emptyCategories, GSTR2B_PREFIX, ITC_STATUS } from './reconciliationService';
+
+const COLUMNS: ColumnMapping = {
+    gstin: 'GSTIN',
+    billNo: 'Invoice Number',
+    invoiceDate: 'Invoice Date',
+    taxableValue: 'Taxable Value',
+    integratedTax: 'Integrated Tax',
+    centralTax: 'Central Tax',
+    stateTax: 'State/UT Tax',
+    cess: 'Cess',
+};
+
+const G = '27AAPFU0939F1ZV';
+
+// A paired record as the engine writes it: books columns as they are, GSTR-2B columns prefixed.
+const pair = (billNo: string, booksIgst: number, gstr2bIgst: number, extra: ReconciliationRecord = {}): ReconciliationRecord => ({
+    'GSTIN': G,
+    'Invoice Number': billNo,
+    'Invoice Date': '01-04-2024',
+    'Integrated Tax': booksIgst,
+    [`${GSTR2B_PREFIX}GSTIN`]: G,
+    [`${GSTR2B_PREFIX}Invoice Number`]: billNo,
+    [`${GSTR2B_PREFIX}Invoice Date`]: '01-04-2024',
+    [`${GSTR2B_PREFIX}Integrated Tax`]: gstr2bIgst,
+    'ITC Status': ITC_STATUS.available,
+    ...extra,
+});
+
+const result = (categories: Partial<ReconciliationResult>): ReconciliationResult =>
+    ({ ...emptyCategories(), columns: { books: COLUMNS, gstr2b: COLUMNS }, ...categories } as ReconciliationResult);
+
+const igstOf = (computation: ReturnType<typeof computeGstr3bItc>, id: string) =>
+    computation.rows.find(row => row.id === id)!.amounts.integratedTax;
+
+describe('computeGstr3bItc', () => {
+    it('claims the lower side of agreed and mismatched pairs in 4(A)(5) and defers the rest', () => {
+        const computation = computeGstr3bItc(result({
+            matchedRecords: [pair('1', 180, 180)],
+            valueMismatchRecords: [pair('2', 100, 90)],
+            invoicesInBookNotInGstr2b: [{ 'GSTIN': G, 'Invoice Number': '3', 'Integrated Tax': 50, 'Reason Code': 'ONLY_IN_BOOKS' }],
+        }));
+
+        expect(igstOf(computation, '4A5')).toBe(270);
+        expect(igstOf(computation, '4C')).toBe(270);
+        expect(computation.deferred.amounts.integratedTax).toBe(50);
+    });
+
+    it('follows the amount basis of the policy', () => {
+        const computation = computeGstr3bItc(result({ valueMismatchRecords: [pair('2', 100, 90)] }), {
+            ...DEFAULT_GSTR3B_POLICY,
+            amountBasis: 'books',
+        });
+        expect(igstOf(computation, '4A5')).toBe(100);
+    });
+
+    it('reverses a bucket claimed and reversed in 4(B)(2)', () => {
+        const computation = computeGstr3bItc(result({ matchedRecords: [pair('1', 180, 180)] }), {
+            ...DEFAULT_GSTR3B_POLICY,
+            matched: 'claimAndReverse',
+        });
+        expect(igstOf(computation, '4A5')).toBe(180);
+        expect(igstOf(computation, '4B2')).toBe(180);
+        expect(igstOf(computation, '4C')).toBe(0);
+    });
+
+    it('reports ITC that GSTR-2B marks as not available in 4(D)(2) only', () => {
+        const computation = computeGstr3bItc(result({
+            matchedRecords: [pair('1', 180, 150, { 'ITC Status': ITC_STATUS.notAvailable })],
+        }));
+        expect(igstOf(computation, '4D2')).toBe(150);
+        expect(igstOf(computation, '4A5')).toBe(0);
+    });
+
+    it('counts each side of a group match once', () => {
+        // Two books invoices covered by one GSTR-2B invoice: the GSTR-2B side repeats on both rows.
+        const group = { 'Group ID': 'G1', 'Group Books Invoices': 'A1, A2', 'Group GSTR-2B Invoices': 'Z9' };
+        const computation = computeGstr3bItc(result({
+            groupMatchedRecords: [
+                pair('A1', 180, 270, { ...group, 'Source Row': 2, [`${GSTR2B_PREFIX}Source Row`]: 5 }),
+                pair('A2', 90, 270, { ...group, 'Source Row': 3, [`${GSTR2B_PREFIX}Source Row`]: 5 }),
+            ],
+        }));
+
+        expect(igstOf(computation, '4A5')).toBe(270);
+        expect(computation.rows.find(row => row.id === '4A5')!.contributions).toHaveLength(1);
+    });
+});
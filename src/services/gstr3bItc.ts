@@ -0,0 +1,239 @@
+import {
+    ColumnMapping,
+    Gstr3bContribution,
+    Gstr3bItcComputation,
+    Gstr3bPolicy,
+    Gstr3bRow,
+    Gstr3bRowId,
+    ReconciliationRecord,
+    ReconciliationResult,
+    ResultCategoryKey,
+    TaxHeadAmounts,
+} from '../types';
+import { GSTR2B_PREFIX, IMPORT_CATEGORIES, ITC_STATUS, ONLY_IN_BOOKS_CATEGORIES, ONLY_IN_GSTR2B_CATEGORIES } from './reconciliationService';
+import { SECTION_COLUMN } from './gstr2bJsonParser';
+import { SOURCE_ROW_COLUMN } from './preflight';
+
+// --- Configuration ---
+
+/** Claim what both sides agree on, hold back what is missing on either side. */
+export const DEFAULT_GSTR3B_POLICY: Gstr3bPolicy = {
+    matched: 'claim',
+    mismatched: 'claim',
+    partiallyMatched: 'claim',
+    onlyInBooks: 'defer',
+    onlyInGstr2b: 'defer',
+    amountBasis: 'lower',
+};
+
+export const GSTR3B_ROWS: { id: Gstr3bRowId; label: string }[] = [
+    { id: '4A1', label: '4(A)(1) Import of goods' },
+    { id: '4A2', label: '4(A)(2) Import of services' },
+    { id: '4A3', label: '4(A)(3) Inward supplies liable to reverse charge (other than 1 & 2 above)' },
+    { id: '4A4', label: '4(A)(4) Inward supplies from ISD' },
+    { id: '4A5', label: '4(A)(5) All other ITC' },
+    { id: '4B1', label: '4(B)(1) As per rules 38, 42 & 43 of CGST Rules and section 17(5)' },
+    { id: '4B2', label: '4(B)(2) Others' },
+    { id: '4C', label: '4(C) Net ITC available (A) - (B)' },
+    { id: '4D1', label: '4(D)(1) ITC reclaimed which was reversed under Table 4(B)(2) in earlier tax period' },
+    { id: '4D2', label: '4(D)(2) Ineligible ITC under section 16(4) & ITC restricted due to PoS rules' },
+];
+
+// Result categories behind each policy bucket. Bills of entry follow the same policy as invoices.
+export const POLICY_BUCKETS: { bucket: keyof Omit<Gstr3bPolicy, 'amountBasis'>; label: string; categories: ResultCategoryKey[] }[] = [
+    {
+        bucket: 'matched',
+        label: 'Matched (incl. different period, normalized, group and manual)',
+        categories: ['matchedRecords', 'differentPeriodRecords', 'normalizedMatchedRecords', 'groupMatchedRecords', 'manuallyMatchedRecords', 'importMatchedRecords'],
+    },
+    { bucket: 'mismatched', label: 'Value, tax head and cess mismatches', categories: ['valueMismatchRecords', 'taxHeadMismatchRecords', 'cessMismatchRecords', 'importMismatchRecords'] },
+    { bucket: 'partiallyMatched', label: 'Partially matched', categories: ['partiallyMatchedRecords'] },
+    { bucket: 'onlyInBooks', label: 'Only in Books', categories: [...ONLY_IN_BOOKS_CATEGORIES, 'importsInBookNotInGstr2b'] },
+    { bucket: 'onlyInGstr2b', label: 'Only in GSTR-2B', categories: [...ONLY_IN_GSTR2B_CATEGORIES, 'importsInGstr2bNotInBook'] },
+];
+
+const TAX_HEADS: (keyof TaxHeadAmounts)[] = ['integratedTax', 'centralTax', 'stateTax', 'cess'];
+
+const IMPORT_SECTIONS = ['IMPG', 'IMPGSEZ'];
+const ISD_SECTIONS = ['ISD', 'ISDA'];
+
+// --- Helper Functions ---
+
+const toNumber = (value: any): number => {
+    const parsed = parseFloat(String(value ?? '').replace(/,/g, ''));
+    return isNaN(parsed) ? 0 : parsed;
+};
+
+const mapHeads = (value: (head: keyof TaxHeadAmounts) => number): TaxHeadAmounts => ({
+    integratedTax: value('integratedTax'),
+    centralTax: value('centralTax'),
+    stateTax: value('stateTax'),
+    cess: value('cess'),
+});
+
+const zeroAmounts = (): TaxHeadAmounts => mapHeads(() => 0);
+
+const addAmounts = (target: TaxHeadAmounts, amounts: TaxHeadAmounts, sign = 1) => {
+    TAX_HEADS.forEach(head => { target[head] += sign * amounts[head]; });
+};
+
+const roundAmounts = (amounts: TaxHeadAmounts): TaxHeadAmounts => mapHeads(head => Math.round(amounts[head] * 100) / 100);
+
+const readAmounts = (record: ReconciliationRecord, mapping: ColumnMapping, prefix = ''): TaxHeadAmounts =>
+    mapHeads(head => mapping[head] ? toNumber(record[`${prefix}${mapping[head]}`]) : 0);
+
+/** A record, or all rows of one group match, reduced to what Table 4 needs. */
+interface ItcItem {
+    gstin: string;
+    invoiceNumber: string;
+    status: string;
+    books: TaxHeadAmounts | null;
+    gstr2b: TaxHeadAmounts | null;
+    itcNotAvailable: boolean;
+    section: string;
+    reverseCharge: boolean;
+    isImport: boolean;
+}
+
+const toItem = (record: ReconciliationRecord, result: ReconciliationResult, isImport = false): ItcItem => {
+    const { books, gstr2b } = result.columns;
+    const onlyInBooks = record['Reason Code'] === 'ONLY_IN_BOOKS';
+    const onlyInGstr2b = record['Reason Code'] === 'ONLY_IN_GSTR2B';
+    const gstr2bPrefix = onlyInGstr2b ? '' : GSTR2B_PREFIX;
+    const mapping = onlyInGstr2b ? gstr2b : books;
+    return {
+        gstin: String(record[mapping.gstin ?? ''] ?? ''),
+        invoiceNumber: String(record[mapping.billNo ?? mapping.billOfEntryNumber ?? ''] ?? ''),
+        status: String(record['Recon Status'] ?? ''),
+        books: onlyInGstr2b ? null : readAmounts(record, books),
+        gstr2b: onlyInBooks ? null : readAmounts(record, gstr2b, gstr2bPrefix),
+        itcNotAvailable: record['ITC Status'] === ITC_STATUS.notAvailable,
+        section: String(record[`${gstr2bPrefix}${SECTION_COLUMN}`] ?? '').toUpperCase(),
+        reverseCharge: record['RCM Supply'] === 'Yes',
+        isImport,
+    };
+};
+
+/**
+ * Collapses the rows of each group match into one item. A group repeats its single side on
+ * every row, so each side is summed over its distinct source rows. Rows read from GSTR-2B JSON
+ * have no source row and are told apart by invoice number and date.
+ */
+const rowIdentity = (row: ReconciliationRecord, columns: ColumnMapping, prefix = ''): string =>
+    String(row[`${prefix}${SOURCE_ROW_COLUMN}`] ?? `${row[`${prefix}${columns.billNo}`]}|${row[`${prefix}${columns.invoiceDate}`]}`);
+
+const groupItems = (records: ReconciliationRecord[], result: ReconciliationResult): ItcItem[] => {
+    const { books, gstr2b } = result.columns;
+    const groups = new Map<string, ReconciliationRecord[]>();
+    records.forEach(record => {
+        const id = String(record['Group ID']);
+        groups.set(id, [...(groups.get(id) ?? []), record]);
+    });
+
+    return Array.from(groups.values()).map(rows => {
+        const item = toItem(rows[0], result);
+        const sumDistinct = (key: (row: ReconciliationRecord) => string, amounts: (row: ReconciliationRecord) => TaxHeadAmounts) => {
+            const total = zeroAmounts();
+            const seen = new Set<string>();
+            rows.forEach(row => {
+                const id = key(row);
+                if (seen.has(id)) return;
+                seen.add(id);
+                addAmounts(total, amounts(row));
+            });
+            return total;
+        };
+        return {
+            ...item,
+            invoiceNumber: `${rows[0]['Group Books Invoices']} ↔ ${rows[0]['Group GSTR-2B Invoices']}`,
+            books: sumDistinct(row => rowIdentity(row, books), row => readAmounts(row, books)),
+            gstr2b: sumDistinct(row => rowIdentity(row, gstr2b, GSTR2B_PREFIX), row => readAmounts(row, gstr2b, GSTR2B_PREFIX)),
+            itcNotAvailable: rows.some(row => row['ITC Status'] === ITC_STATUS.notAvailable),
+        };
+    });
+};
+
+/** The ITC an item claims under the amount basis; a record on one side only claims that side. */
+const claimAmounts = (item: ItcItem, basis: Gstr3bPolicy['amountBasis']): TaxHeadAmounts => {
+    if (!item.gstr2b) return item.books!;
+    if (!item.books) return item.gstr2b;
+    if (basis === 'books') return item.books;
+    if (basis === 'gstr2b') return item.gstr2b;
+    return mapHeads(head => Math.min(item.books![head], item.gstr2b![head]));
+};
+
+const availableRowFor = (item: ItcItem): Gstr3bRowId => {
+    if (item.isImport || IMPORT_SECTIONS.includes(item.section)) return '4A1';
+    if (ISD_SECTIONS.includes(item.section)) return '4A4';
+    if (item.reverseCharge) return '4A3';
+    return '4A5';
+};
+
+// --- Public API ---
+
+/**
+ * Suggests the GSTR-3B Table 4 figures per tax head from a reconciliation result.
+ *
+ * Each policy bucket is claimed in 4(A), claimed in 4(A) and reversed in 4(B)(2) (to be
+ * reclaimed later through 4(D)(1)), or deferred and left out of the return. ITC that GSTR-2B
+ * marks as not available is reported in 4(D)(2) whatever the bucket. Import of services,
+ * 4(B)(1) and 4(D)(1) cannot be derived from the reconciliation and stay at zero.
+ */
+export const computeGstr3bItc = (result: ReconciliationResult, policy: Gstr3bPolicy = DEFAULT_GSTR3B_POLICY): Gstr3bItcComputation => {
+    const rows = new Map<Gstr3bRowId, Gstr3bRow>(
+        GSTR3B_ROWS.map(({ id, label }) => [id, { id, label, amounts: zeroAmounts(), contributions: [] }])
+    );
+    const deferred: Omit<Gstr3bRow, 'id'> = { label: 'Deferred under the policy', amounts: zeroAmounts(), contributions: [] };
+
+    const contribute = (target: Omit<Gstr3bRow, 'id'>, item: ItcItem, amounts: TaxHeadAmounts) => {
+        addAmounts(target.amounts, amounts);
+        target.contributions.push({ gstin: item.gstin, invoiceNumber: item.invoiceNumber, status: item.status, amounts: roundAmounts(amounts) });
+    };
+
+    POLICY_BUCKETS.forEach(({ bucket, categories }) => {
+        const treatment = policy[bucket];
+        categories.forEach(key => {
+            const records = result[key];
+            const isImport = (IMPORT_CATEGORIES as ResultCategoryKey[]).includes(key);
+            const items = key === 'groupMatchedRecords' ? groupItems(records, result) : records.map(record => toItem(record, result, isImport));
+            items.forEach(item => {
+                if (item.itcNotAvailable) {
+                    contribute(rows.get('4D2')!, item, item.gstr2b ?? claimAmounts(item, policy.amountBasis));
+                    return;
+                }
+                const amounts = claimAmounts(item, policy.amountBasis);
+                if (treatment === 'defer') {
+                    contribute(deferred, item, amounts);
+                    return;
+                }
+                contribute(rows.get(availableRowFor(item))!, item, amounts);
+                if (treatment === 'claimAndReverse') contribute(rows.get('4B2')!, item, amounts);
+            });
+        });
+    });
+
+    const net = rows.get('4C')!;
+    (['4A1', '4A2', '4A3', '4A4', '4A5'] as Gstr3bRowId[]).forEach(id => addAmounts(net.amounts, rows.get(id)!.amounts));
+    (['4B1', '4B2'] as Gstr3bRowId[]).forEach(id => addAmounts(net.amounts, rows.get(id)!.amounts, -1));
+
+    return {
+        policy,
+        rows: GSTR3B_ROWS.map(({ id }) => {
+            const row = rows.get(id)!;
+            return { ...row, amounts: roundAmounts(row.amounts) };
+        }),
+        deferred: { ...deferred, amounts: roundAmounts(deferred.amounts) },
+    };
+};
+
+/** The contributions behind a figure as export rows with readable column headers. */
+export const contributionRows = (contributions: Gstr3bContribution[]): ReconciliationRecord[] =>
+    contributions.map(contribution => ({
+        'GSTIN': contribution.gstin,
+        'Invoice Number': contribution.invoiceNumber,
+        'Recon Status': contribution.status,
+        'IGST (₹)': contribution.amounts.integratedTax,
+        'CGST (₹)': contribution.amounts.centralTax,
+        'SGST (₹)': contribution.amounts.stateTax,
+        'Cess (₹)': contribution.amounts.cess,
+    }));
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { NORMALIZATION_LEVELS, NormalizationRule } from './invoiceNumberNormalizer';
+
+const normalizeAt = (rule: NormalizationRule, billNo: string) =>
+    NORMALIZATION_LEVELS.find(level => level.rule === rule)!.normalize(billNo);
+
+describe('NORMALIZATION_LEVELS', () => {
+    it('tries the mildest rule first', () => {
+        expect(NORMALIZATION_LEVELS.map(level => level.rule)).toEqual([
+            'Separators removed',
+            'Leading zeros removed',
+            'Financial-year suffix removed',
+            'Common prefix removed',
+        ]);
+    });
+
+    it('removes separators and upper-cases', () => {
+        expect(normalizeAt('Separators removed', ' inv/00-12 ')).toBe('INV0012');
+    });
+
+    it('removes zeros at the start of every numeric run', () => {
+        expect(normalizeAt('Leading zeros removed', 'A-007/B-0012')).toBe('A7B12');
+        expect(normalizeAt('Leading zeros removed', '0')).toBe('0');
+    });
+
+    it('removes a financial year at either end', () => {
+        const rule = 'Financial-year suffix removed';
+        expect(normalizeAt(rule, '123/24-25')).toBe('123');
+        expect(normalizeAt(rule, '0123-2024-25')).toBe('123');
+        expect(normalizeAt(rule, 'FY2024-2025/0045')).toBe('45');
+    });
+
+    it('keeps year pairs that are not consecutive', () => {
+        expect(normalizeAt('Financial-year suffix removed', '12-15')).toBe('1215');
+    });
+
+    it('keeps a number that is only a year pair', () => {
+        const rule = 'Financial-year suffix removed';
+        expect(normalizeAt(rule, '12-13')).toBe('1213');
+        expect(normalizeAt(rule, '2023-24')).toBe('202324');
+    });
+
+    it('strips common prefixes only before digits', () => {
+        const rule = 'Common prefix removed';
+        expect(normalizeAt(rule, 'INV-0012')).toBe('12');
+        expect(normalizeAt(rule, 'INVOICE/12/24-25')).toBe('12');
+        expect(normalizeAt(rule, 'INVA12')).toBe('INVA12');
+        expect(normalizeAt(rule, 'SI12')).toBe('SI12');
+    });
+});
@@ -0,0 +1,79 @@
+// --- Configuration ---
+
+// Words suppliers commonly put in front of the running invoice number. Short codes such as
+// 'SI' or 'PI' are left out, as they are often a supplier's own series.
+// Longest first so that e.g. 'INVOICE' is stripped before 'INV' gets a chance.
+const COMMON_PREFIXES = ['INVOICE', 'TAXINV', 'BILL', 'INV'];
+
+export type NormalizationRule =
+    | 'Separators removed'
+    | 'Leading zeros removed'
+    | 'Financial-year suffix removed'
+    | 'Common prefix removed';
+
+export interface NormalizationLevel {
+    rule: NormalizationRule;
+    normalize: (billNo: string) => string;
+}
+
+// --- Helper Functions ---
+
+const isConsecutiveYearPair = (first: string, second: string): boolean => {
+    const a = parseInt(first.slice(-2), 10);
+    const b = parseInt(second.slice(-2), 10);
+    return (a + 1) % 100 === b;
+};
+
+const stripSeparators = (billNo: string): string => billNo.replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Removes a financial-year marker such as '/24-25', '-2024-25' or 'FY2024-2025/'
+ * from either end of the invoice number. Only consecutive year pairs are treated
+ * as a financial year so that ordinary numbers like '12-15' are left alone. A number
+ * that is nothing but a year pair, such as '12-13', is the invoice number itself and
+ * is kept.
+ */
+const stripFinancialYear = (billNo: string): string => {
+    const suffix = billNo.replace(/[\s\/\-_.]*(?:FY)?[\s\/\-_.]*((?:20)?\d{2})[\-\/]((?:20)?\d{2})$/,
+        (match, first, second) => isConsecutiveYearPair(first, second) ? '' : match);
+    const stripped = suffix.replace(/^(?:FY)?[\s\/\-_.]*((?:20)?\d{2})[\-\/]((?:20)?\d{2})[\s\/\-_.]+/,
+        (match, first, second) => isConsecutiveYearPair(first, second) ? '' : match);
+    return stripSeparators(stripped) === '' ? billNo : stripped;
+};
+
+// Drops zeros at the start of every numeric run, e.g. 'INV0012' -> 'INV12'.
+const stripLeadingZeros = (billNo: string): string => billNo.replace(/(^|[^0-9])0+(?=\d)/g, '$1');
+
+// Only strips a prefix followed by digits, so that e.g. 'INVA12' keeps its series letter.
+const stripCommonPrefix = (billNo: string): string => {
+    const prefix = COMMON_PREFIXES.find(p => billNo.startsWith(p) && /^\d/.test(billNo.slice(p.length)));
+    return prefix ? billNo.slice(prefix.length) : billNo;
+};
+
+const base = (billNo: string): string => String(billNo ?? '').trim().toUpperCase();
+
+// --- Normalization Levels ---
+
+/**
+ * Normalization levels in the order they are tried. Each level includes all of the
+ * previous transformations, so later levels are progressively more aggressive and
+ * a match is always attributed to the mildest rule that produced it.
+ */
+export const NORMALIZATION_LEVELS: NormalizationLevel[] = [
+    {
+        rule: 'Separators removed',
+        normalize: billNo => stripSeparators(base(billNo)),
+    },
+    {
+        rule: 'Leading zeros removed',
+        normalize: billNo => stripLeadingZeros(stripSeparators(base(billNo))),
+    },
+    {
+        rule: 'Financial-year suffix removed',
+        normalize: billNo => stripLeadingZeros(stripSeparators(stripFinancialYear(base(billNo)))),
+    },
+    {
+        rule: 'Common prefix removed',
+        normalize: billNo => stripLeadingZeros(stripCommonPrefix(stripSeparators(stripFinancialYear(base(billNo))))),
+    },
+];
@@ -0,0 +1,146 @@
+import { ReconciliationResult, ReconciliationRecord, ResultCategories, OverrideLogEntry } from '../types';
+import { RECON_COLUMNS, GSTR2B_PREFIX, PAIRED_CATEGORIES, ONLY_IN_BOOKS_CATEGORIES, ONLY_IN_GSTR2B_CATEGORIES, createPairComparer, categorizeUnmatched, summarizeResult, stampItc } from './reconciliationService';
+
+// --- Configuration ---
+
+export const MANUAL_MATCH_STATUS = 'Manually Matched';
+
+const reconColumns = new Set(RECON_COLUMNS);
+
+// --- Helper Functions ---
+
+/** The source columns of a record: the book side of a pair, or the row of an only-in record. */
+const ownColumns = (record: ReconciliationRecord): ReconciliationRecord =>
+    Object.fromEntries(Object.entries(record).filter(([key]) => !reconColumns.has(key) && !key.startsWith(GSTR2B_PREFIX)));
+
+/** The GSTR-2B side of a paired record, with the prefix removed. */
+const gstr2bColumns = (record: ReconciliationRecord): ReconciliationRecord =>
+    Object.fromEntries(
+        Object.entries(record)
+            .filter(([key]) => key.startsWith(GSTR2B_PREFIX))
+            .map(([key, value]) => [key.slice(GSTR2B_PREFIX.length), value])
+    );
+
+// A group repeats each side on several rows; keep one copy of each distinct row.
+const distinctRows = (rows: ReconciliationRecord[]): ReconciliationRecord[] =>
+    Array.from(new Map(rows.map(row => [JSON.stringify(row), row])).values());
+
+const categoriesOf = (result: ReconciliationResult): ResultCategories => {
+    const { summary, finalReport, options, columns, source, overrides, preflight, ...categories } = result;
+    return categories;
+};
+
+const withoutRecords = (categories: ResultCategories, records: Set<ReconciliationRecord>): ResultCategories =>
+    Object.fromEntries(
+        Object.entries(categories).map(([key, rows]) => [key, rows.filter(row => !records.has(row))])
+    ) as ResultCategories;
+
+const requireRemark = (remark: string): string => {
+    const trimmed = remark.trim();
+    if (!trimmed) throw new Error('A remark is required for every manual override.');
+    return trimmed;
+};
+
+/** Rebuilds the final report and summary after a change and appends the change to the log. */
+const applyChange = (result: ReconciliationResult, categories: ResultCategories, entry: OverrideLogEntry): ReconciliationResult => ({
+    ...result,
+    ...categories,
+    ...summarizeResult(categories, { totalInBooks: result.summary.totalInBooks, totalInGstr2b: result.summary.totalInGstr2b }, result.columns),
+    overrides: [...result.overrides, entry],
+});
+
+// --- Public API ---
+
+/**
+ * Pairs a record found only in the books with a record found only in GSTR-2B. The pair is
+ * compared like any automatic pair, so its reason code and Diff columns still show any
+ * difference in amounts.
+ */
+export const applyManualMatch = (
+    result: ReconciliationResult,
+    bookRecord: ReconciliationRecord,
+    gstr2bRecord: ReconciliationRecord,
+    remark: string
+): ReconciliationResult => {
+    const note = requireRemark(remark);
+    const onlyInBooks = ONLY_IN_BOOKS_CATEGORIES.flatMap(key => result[key]);
+    const onlyInGstr2b = ONLY_IN_GSTR2B_CATEGORIES.flatMap(key => result[key]);
+    if (!onlyInBooks.includes(bookRecord) || !onlyInGstr2b.includes(gstr2bRecord)) {
+        throw new Error('Only records that are unmatched on both sides can be matched manually.');
+    }
+
+    const { buildMatchedRecord } = createPairComparer(result.columns, result.options);
+    const bookRow = ownColumns(bookRecord);
+    const gstrRow = ownColumns(gstr2bRecord);
+    const matched = stampItc(buildMatchedRecord(bookRow, gstrRow, MANUAL_MATCH_STATUS, { 'Override Remark': note }), result.columns);
+
+    const categories = withoutRecords(categoriesOf(result), new Set([bookRecord, gstr2bRecord]));
+    categories.manuallyMatchedRecords = [...categories.manuallyMatchedRecords, matched];
+
+    return applyChange(result, categories, {
+        timestamp: new Date().toISOString(),
+        action: 'Manual match',
+        gstin: String(bookRow[result.columns.books.gstin ?? ''] ?? ''),
+        booksInvoices: String(bookRow[result.columns.books.billNo ?? ''] ?? ''),
+        gstr2bInvoices: String(gstrRow[result.columns.gstr2b.billNo ?? ''] ?? ''),
+        previousStatus: 'Only in Books / Only in GSTR-2B',
+        newStatus: MANUAL_MATCH_STATUS,
+        remark: note,
+    });
+};
+
+/**
+ * Breaks a pair back into a book record and a GSTR-2B record, each reported as found on one
+ * side only. Breaking one row of a group match breaks the whole group.
+ */
+export const applyManualUnmatch = (
+    result: ReconciliationResult,
+    pairedRecord: ReconciliationRecord,
+    remark: string
+): ReconciliationResult => {
+    const note = requireRemark(remark);
+    const categories = categoriesOf(result);
+    const isPaired = PAIRED_CATEGORIES.some(key => categories[key].includes(pairedRecord));
+    if (!isPaired) throw new Error('Only matched records can be unmatched.');
+
+    const groupId = pairedRecord['Group ID'];
+    const pairRows = groupId
+        ? categories.groupMatchedRecords.filter(row => row['Group ID'] === groupId)
+        : [pairedRecord];
+
+    const bookRows = distinctRows(pairRows.map(ownColumns))
+        .map(row => stampItc({ ...row, 'Recon Status': 'Only in Books', 'Reason Code': 'ONLY_IN_BOOKS', 'Override Remark': note }, result.columns));
+    const gstrRows = distinctRows(pairRows.map(gstr2bColumns))
+        .map(row => stampItc({ ...row, 'Recon Status': 'Only in GSTR-2B', 'Reason Code': 'ONLY_IN_GSTR2B', 'Override Remark': note }, result.columns));
+
+    const remaining = withoutRecords(categories, new Set(pairRows));
+    const unmatched = categorizeUnmatched(bookRows, gstrRows, result.columns, result.source);
+    const updated: ResultCategories = { ...remaining };
+    [...ONLY_IN_BOOKS_CATEGORIES, ...ONLY_IN_GSTR2B_CATEGORIES].forEach(key => {
+        updated[key] = [...remaining[key], ...unmatched[key]];
+    });
+
+    return applyChange(result, updated, {
+        timestamp: new Date().toISOString(),
+        action: 'Manual unmatch',
+        gstin: String(bookRows[0]?.[result.columns.books.gstin ?? ''] ?? ''),
+        booksInvoices: bookRows.map(row => row[result.columns.books.billNo ?? '']).join(', '),
+        gstr2bInvoices: gstrRows.map(row => row[result.columns.gstr2b.billNo ?? '']).join(', '),
+        previousStatus: String(pairedRecord['Recon Status'] ?? ''),
+        newStatus: 'Only in Books / Only in GSTR-2B',
+        remark: note,
+    });
+};
+
+/** The override log as export rows with readable column headers. */
+export const overrideLogRows = (entries: OverrideLogEntry[]): ReconciliationRecord[] =>
+    entries.map(entry => ({
+        'Timestamp': entry.timestamp,
+        'Action': entry.action,
+        'GSTIN': entry.gstin,
+        'Books Invoice(s)': entry.booksInvoices,
+        'GSTR-2B Invoice(s)': entry.gstr2bInvoices,
+        'Previous Status': entry.previousStatus,
+        'New Status': entry.newStatus,
+        'Remark': entry.remark,
+    }));
@@ -0,0 +1,155 @@
+import { PreflightIssue, PreflightIssueKind, ReconciliationRecord } from '../types';
+import { SECTION_COLUMN } from './gstr2bJsonParser';
+import { GST_STATES, validateGstin } from './gstinValidator';
+
+// --- Configuration ---
+
+// Column added to every spreadsheet record with its 1-based row number in the source sheet.
+export const SOURCE_ROW_COLUMN = 'Source Row';
+
+export const PREFLIGHT_CHECKS: { kind: PreflightIssueKind; label: string }[] = [
+    { kind: 'droppedRow', label: 'Rows dropped' },
+    { kind: 'unreadableAmount', label: 'Amounts not read as written' },
+    { kind: 'invalidGstin', label: 'Invalid GSTIN format' },
+    { kind: 'implausibleTax', label: 'Tax not at a GST rate' },
+    { kind: 'interstateTaxHead', label: 'Tax heads vs supplier state' },
+];
+
+// GST rates in percent, as IGST or as CGST + SGST together.
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+// Tax within this many rupees of a rate counts as that rate, to absorb rounding on each line.
+const RATE_TOLERANCE = 1;
+
+const PLAIN_NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i;
+
+export interface PreflightHeaders {
+    /** Columns every row needs; consolidation drops rows with any of them empty. */
+    keys: string[];
+    gstin?: string;
+    billNo?: string;
+    taxableValue?: string;
+    integratedTax?: string;
+    centralTax?: string;
+    stateTax?: string;
+    cess?: string;
+    /** False for bills of entry, whose IGST is charged on the assessable value plus customs duty. */
+    checkTaxRate?: boolean;
+}
+
+export interface PreflightContext {
+    side: PreflightIssue['side'];
+    /** Reported for rows not tagged with a section. */
+    sheetName?: string;
+    /** Our own GSTIN; with it, tax heads are checked against the supplier's state. */
+    recipientGstin?: string;
+}
+
+// --- Helper Functions ---
+
+const isBlank = (value: any) => value === undefined || value === null || String(value).trim() === '';
+
+/** Reads an amount the way the reconciliation does, noting when the text is not a plain number. */
+const readAmount = (value: any): { amount: number; readAs: string | null } => {
+    if (isBlank(value) || typeof value === 'number') return { amount: Number(value) || 0, readAs: null };
+    const text = String(value).replace(/,/g, '').trim();
+    const parsed = parseFloat(text);
+    const amount = isNaN(parsed) ? 0 : parsed;
+    if (PLAIN_NUMBER.test(text)) return { amount, readAs: null };
+    return { amount, readAs: isNaN(parsed) ? 'Read as 0' : `Read as ${amount}; the rest of the text is ignored` };
+};
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+// --- Public API ---
+
+/**
+ * Checks the rows of one side before matching and lists what the reconciliation would otherwise
+ * pass over silently: rows dropped for lacking a key column, amounts whose text is not a plain
+ * number, invalid GSTINs, and tax that is not a GST rate on the taxable value or is split
+ * unevenly between CGST and SGST. A dropped row is not checked any further. Rows tagged with a
+ * section are reported under it, others under the given sheet name.
+ *
+ * Given our own GSTIN, a supplier in our state should charge CGST and SGST and one elsewhere
+ * IGST. Rows that differ are reported for review, as the place of supply can lie outside the
+ * recipient's state, e.g. for goods shipped to another state.
+ */
+export const checkRows = (rows: ReconciliationRecord[], headers: PreflightHeaders, context: PreflightContext): PreflightIssue[] => {
+    const { side, sheetName = '' } = context;
+    const recipientState = context.recipientGstin ? validateGstin(context.recipientGstin).stateCode : undefined;
+    const issues: PreflightIssue[] = [];
+    const amountHeaders = [headers.taxableValue, headers.integratedTax, headers.centralTax, headers.stateTax, headers.cess]
+        .filter((h): h is string => !!h);
+
+    rows.forEach(row => {
+        const issue = (kind: PreflightIssueKind, message: string, column = '', value = ''): PreflightIssue => ({
+            kind,
+            side,
+            sheet: String(row[SECTION_COLUMN] ?? sheetName),
+            row: row[SOURCE_ROW_COLUMN] ?? null,
+            gstin: headers.gstin ? String(row[headers.gstin] ?? '') : '',
+            invoiceNumber: headers.billNo ? String(row[headers.billNo] ?? '') : '',
+            column,
+            value,
+            message,
+        });
+
+        const missing = headers.keys.filter(header => isBlank(row[header]));
+        if (missing.length > 0) {
+            issues.push(issue('droppedRow', `Dropped: no ${missing.join(' or ')}`));
+            return;
+        }
+
+        const amounts: Record<string, number> = {};
+        amountHeaders.forEach(header => {
+            const { amount, readAs } = readAmount(row[header]);
+            amounts[header] = amount;
+            if (readAs) issues.push(issue('unreadableAmount', readAs, header, String(row[header])));
+        });
+
+        const supplier = headers.gstin ? validateGstin(row[headers.gstin]) : undefined;
+        if (headers.gstin && supplier?.problem) issues.push(issue('invalidGstin', supplier.problem, headers.gstin, String(row[headers.gstin])));
+
+        const amountOf = (header?: string) => header ? Math.abs(amounts[header] ?? 0) : 0;
+        const taxable = amountOf(headers.taxableValue);
+        const igst = amountOf(headers.integratedTax);
+        const cgst = amountOf(headers.centralTax);
+        const sgst = amountOf(headers.stateTax);
+        const tax = igst + cgst + sgst;
+
+        if (recipientState && supplier?.stateCode) {
+            if (supplier.stateCode === recipientState && igst > RATE_TOLERANCE) {
+                issues.push(issue('interstateTaxHead', `IGST charged though supplier and recipient are both in ${supplier.state}`));
+            } else if (supplier.stateCode !== recipientState && cgst + sgst > RATE_TOLERANCE) {
+                issues.push(issue('interstateTaxHead', `CGST/SGST charged though the supplier is in ${supplier.state} and the recipient in ${GST_STATES[recipientState]}`));
+            }
+        }
+
+        if (headers.checkTaxRate === false || !headers.taxableValue || (taxable === 0 && tax === 0)) return;
+
+        if (igst > RATE_TOLERANCE && cgst + sgst > RATE_TOLERANCE) {
+            issues.push(issue('implausibleTax', 'Both IGST and CGST/SGST charged'));
+        } else if (Math.abs(cgst - sgst) > RATE_TOLERANCE) {
+            issues.push(issue('implausibleTax', `CGST ${formatAmount(cgst)} and SGST ${formatAmount(sgst)} differ`));
+        } else if (!GST_RATES.some(rate => Math.abs(tax - taxable * rate / 100) <= RATE_TOLERANCE)) {
+            const rate = taxable > 0 ? `${(tax / taxable * 100).toFixed(2)}%` : 'tax on a zero taxable value';
+            issues.push(issue('implausibleTax', `Tax ${formatAmount(tax)} on taxable ${formatAmount(taxable)} is ${rate}, not a GST rate`));
+        }
+    });
+
+    return issues;
+};
+
+/** Preflight issues as export rows with readable column headers. */
+export const preflightRows = (issues: PreflightIssue[]): ReconciliationRecord[] =>
+    issues.map(issue => ({
+        'Check': PREFLIGHT_CHECKS.find(check => check.kind === issue.kind)?.label ?? issue.kind,
+        'File': issue.side,
+        'Sheet': issue.sheet,
+        'Row': issue.row,
+        'GSTIN': issue.gstin,
+        'Invoice Number': issue.invoiceNumber,
+        'Column': issue.column,
+        'Value': issue.value,
+        'Issue': issue.message,
+    }));
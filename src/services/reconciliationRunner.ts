@@ -0,0 +1,52 @@
+import { ReconciliationResult, ReconciliationProgress, ReconciliationWorkerRequest, ReconciliationWorkerMessage } from '../types';
+
+export class ReconciliationCancelledError extends Error {
+    constructor() {
+        super('Reconciliation was cancelled.');
+        this.name = 'ReconciliationCancelledError';
+    }
+}
+
+export interface ReconciliationRun {
+    result: Promise<ReconciliationResult>;
+    cancel: () => void;
+}
+
+/**
+ * Starts a reconciliation in a dedicated Web Worker. Progress messages are forwarded to
+ * `onProgress`; cancelling terminates the worker and rejects the result with
+ * ReconciliationCancelledError.
+ */
+export const startReconciliation = (
+    request: ReconciliationWorkerRequest,
+    onProgress: (progress: ReconciliationProgress) => void
+): ReconciliationRun => {
+    const worker = new Worker(new URL('./reconciliationWorker.ts', import.meta.url), { type: 'module' });
+    let settle: { reject: (reason: Error) => void } | null = null;
+
+    const result = new Promise<ReconciliationResult>((resolve, reject) => {
+        settle = { reject };
+        worker.onmessage = (e: MessageEvent<ReconciliationWorkerMessage>) => {
+            const message = e.data;
+            if (message.type === 'progress') {
+                onProgress(message.progress);
+                return;
+            }
+            worker.terminate();
+            if (message.type === 'result') resolve(message.result);
+            else reject(new Error(message.message));
+        };
+        worker.onerror = (e: ErrorEvent) => {
+            worker.terminate();
+            reject(new Error(e.message || 'The reconciliation worker failed unexpectedly.'));
+        };
+        worker.postMessage(request);
+    });
+
+    const cancel = () => {
+        worker.terminate();
+        settle?.reject(new ReconciliationCancelledError());
+    };
+
+    return { result, cancel };
+};
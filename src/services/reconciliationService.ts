@@ -1,19 +1,124 @@
-import { ReconciliationResult, Gstr2bType, ReconciliationRecord } from '../types';
-
-declare const XLSX: any; // Using XLSX from CDN
+import * as XLSX from 'xlsx';
+import { ReconciliationResult, Gstr2bType, ReconciliationRecord, ReconciliationOptions, ColumnField, ColumnMapping, ColumnMappings, DetectedColumns, ReasonCode, ReconciliationStage, ReconciliationProgress, ResultCategories, ReconciliationSource, ItcTotals, SectionSubtotal } from '../types';
+import { NORMALIZATION_LEVELS } from './invoiceNumberNormalizer';
+import { parseGstr2bJsonFile, isJsonFile, SECTION_COLUMN, BILL_OF_ENTRY_MAPPING, RECIPIENT_GSTIN_COLUMN } from './gstr2bJsonParser';
+import { parseInvoiceDate, parseReturnPeriod } from './dateUtils';
+import { findGroupMatches } from './groupMatcher';
+import { isDelimitedTextFile, parseDelimitedText } from './delimitedTextParser';
+import { AMENDED_COLUMN, AMENDMENT_SHEETS, ORIGINAL_PREFIX, applyAmendments, isAmendment } from './gstr2bAmendments';
+import { findSuspectedDuplicates } from './duplicateDetection';
+import { SOURCE_ROW_COLUMN, checkRows } from './preflight';
+import { GSTIN_SUGGESTION_COLUMNS, createNearMissIndex } from './gstinValidator';
 
 // --- Configuration ---
-const COLUMN_ALIASES = {
+const COLUMN_ALIASES: Record<ColumnField, string[]> = {
     gstin: ['GSTIN', 'GSTIN/UIN of Recipient', 'GSTIN of Supplier', 'Supplier GSTIN'],
-    billNo: ['Invoice Number', 'Bill No', 'Bill Number', 'Document Number', 'Invoice No.', 'Inv No'],
+    billNo: ['Invoice Number', 'Bill No', 'Bill Number', 'Document Number', 'Invoice No.', 'Inv No', 'Note Number', 'Note No', 'Note No.'],
     legalName: ['Supplier Name', 'Party Name', 'Supplier Legal Name', 'Trade/Legal name of the supplier'],
     taxableValue: ['Taxable Value (₹)', 'Taxable Value', 'Taxable Amt', 'Taxable Amount'],
     integratedTax: ['Integrated Tax(₹)', 'Integrated Tax', 'IGST', 'IGST Amt'],
     centralTax: ['Central Tax(₹)', 'Central Tax', 'CGST', 'CGST Amt'],
     stateTax: ['State/UT Tax(₹)', 'State/UT Tax', 'State Tax', 'SGST', 'SGST Amt'],
     cess: ['Cess(₹)', 'Cess', 'Cess Amt'],
+    invoiceDate: ['Invoice Date', 'Invoice Dt', 'Bill Date', 'Document Date', 'Inv Date', 'Note Date', 'Date'],
+    returnPeriod: ['GSTR-2B Period', 'Return Period', 'Tax Period', 'GSTR-1/IFF/GSTR-5 Period', 'GSTR-1/IFF/GSTR-5/GSTR-6 Period', 'Period', 'Month'],
+    itcAvailability: ['ITC Availability', 'ITC Available', 'ITC Eligibility', 'Eligibility of ITC'],
+    itcReason: ['Reason', 'ITC Unavailability Reason', 'Reason for ITC Unavailability'],
+    reverseCharge: ['Supply Attract Reverse Charge', 'Reverse Charge', 'RCM', 'RCM Applicable', 'Reverse Charge Applicable'],
+    documentType: ['Note Type', 'Document Type', 'Doc Type', 'Voucher Type', 'Type of Note'],
+    originalInvoiceNumber: ['Original Invoice Number', 'Original Invoice No', 'Original Invoice No.', 'Original Document Number', 'Original Note Number', 'Against Invoice', 'Against Invoice No', 'Reference Invoice Number', 'Ref Invoice No'],
+    originalInvoiceDate: ['Original Invoice Date', 'Original Document Date', 'Original Note Date', 'Against Invoice Date', 'Reference Invoice Date'],
+    portCode: ['Port Code', 'Port', 'Port of Import'],
+    billOfEntryNumber: ['Bill of Entry Number', 'Bill of Entry No', 'Bill of Entry No.', 'BoE Number', 'BoE No', 'BoE No.', 'BE Number', 'BE No'],
+    billOfEntryDate: ['Bill of Entry Date', 'BoE Date', 'BoE Dt', 'BE Date'],
+    voucherNumber: ['Voucher Number', 'Voucher No', 'Voucher No.', 'Vch No', 'Vch No.', 'Vch Number'],
+};
+
+// Logical fields offered in the column-mapping step, in display order.
+export const COLUMN_FIELDS: { field: ColumnField; label: string }[] = [
+    { field: 'gstin', label: 'Supplier GSTIN' },
+    { field: 'billNo', label: 'Invoice Number' },
+    { field: 'invoiceDate', label: 'Invoice Date' },
+    { field: 'legalName', label: 'Supplier Name' },
+    { field: 'taxableValue', label: 'Taxable Value' },
+    { field: 'integratedTax', label: 'Integrated Tax (IGST)' },
+    { field: 'centralTax', label: 'Central Tax (CGST)' },
+    { field: 'stateTax', label: 'State/UT Tax (SGST)' },
+    { field: 'cess', label: 'Cess' },
+    { field: 'returnPeriod', label: 'Return Period' },
+    { field: 'itcAvailability', label: 'ITC Availability' },
+    { field: 'itcReason', label: 'ITC Unavailability Reason' },
+    { field: 'reverseCharge', label: 'Reverse Charge' },
+    { field: 'documentType', label: 'Document / Note Type' },
+    { field: 'originalInvoiceNumber', label: 'Original Invoice Number' },
+    { field: 'originalInvoiceDate', label: 'Original Invoice Date' },
+    { field: 'portCode', label: 'Port Code' },
+    { field: 'billOfEntryNumber', label: 'Bill of Entry Number' },
+    { field: 'billOfEntryDate', label: 'Bill of Entry Date' },
+    { field: 'voucherNumber', label: 'Voucher Number' },
+];
+
+// Fields every row must carry to be reconciled: invoices are keyed by supplier and number,
+// bills of entry by their number (the port code and date refine the key when present).
+const INVOICE_KEY_FIELDS: ColumnField[] = ['gstin', 'billNo'];
+const IMPORT_KEY_FIELDS: ColumnField[] = ['billOfEntryNumber'];
+
+/** The fields a file must have for a report type; the column mapping step requires them. */
+export const keyFieldsForType = (gstr2bType: Gstr2bType): ColumnField[] =>
+    gstr2bType === 'IMPG' ? IMPORT_KEY_FIELDS : INVOICE_KEY_FIELDS;
+
+export const DEFAULT_RECONCILIATION_OPTIONS: ReconciliationOptions = {
+    tolerance: {
+        taxableValue: 2,
+        integratedTax: 2,
+        centralTax: 2,
+        stateTax: 2,
+        cess: 2,
+    },
+    percentageTolerance: 0,
+    requireLegalNameMatch: true,
+    consolidateInvoices: true,
+    excludeIdenticalCopies: false,
+    recipientGstin: '',
+};
+
+// Overall progress range covered by each stage, so the bar moves steadily across the run.
+const STAGES: Record<ReconciliationStage, { label: string; from: number; to: number }> = {
+    parsing: { label: 'Parsing files', from: 0, to: 30 },
+    validating: { label: 'Checking rows', from: 30, to: 35 },
+    consolidating: { label: 'Consolidating multi-line invoices', from: 35, to: 40 },
+    exact: { label: 'Exact match pass', from: 40, to: 55 },
+    normalized: { label: 'Normalized invoice number pass', from: 55, to: 65 },
+    partial: { label: 'Partial match pass', from: 65, to: 85 },
+    grouping: { label: 'Group match pass', from: 85, to: 95 },
+    reporting: { label: 'Preparing report', from: 95, to: 100 },
+};
+
+// How often (in rows) the row loops report progress.
+const PROGRESS_EVERY = 2000;
+
+// Column added to every record with the derived 'YYYY-MM' period used for timing checks.
+const PERIOD_COLUMN = 'Recon Period';
+
+// Column added to every record saying whether it is an invoice, a credit note or a debit note.
+export const DOCUMENT_COLUMN = 'Document Kind';
+
+export const DOCUMENT_KINDS = {
+    invoice: 'Invoice',
+    creditNote: 'Credit Note',
+    debitNote: 'Debit Note',
 };
 
+// Column added in an All sections run with the GSTR-2B section a record is reconciled under.
+export const SECTION_TAG_COLUMN = 'Recon Section';
+
+// Sheets of the Excel download read in an All sections run, each with its amendment sheet.
+const ALL_SECTION_SHEETS: Gstr2bType[] = ['B2B', 'CDNR'];
+
+// Sections of the JSON reconciled against invoices and notes; bills of entry go to the imports run
+// and ISD and e-commerce documents are left out.
+const INVOICE_SECTIONS = ALL_SECTION_SHEETS.flatMap(section => [section, AMENDMENT_SHEETS[section]!]);
+
 // --- Helper Functions ---
 
 const findHeader = (headers: string[], aliases: string[]): string | undefined => {
@@ -24,6 +129,24 @@ const findHeader = (headers: string[], aliases: string[]): string | undefined =>
     return undefined;
 };
 
+/**
+ * Resolves the header for a logical field: an explicit mapping wins (an empty value meaning
+ * "no such column"), otherwise the built-in aliases are searched.
+ */
+const resolveHeader = (headers: string[], field: ColumnField, mapping?: ColumnMapping): string | undefined => {
+    if (mapping && field in mapping) {
+        const mapped = mapping[field];
+        return mapped && headers.includes(mapped) ? mapped : undefined;
+    }
+    return findHeader(headers, COLUMN_ALIASES[field]);
+};
+
+const addToIndex = <T>(index: Map<string, T[]>, key: string, value: T) => {
+    const bucket = index.get(key);
+    if (bucket) bucket.push(value);
+    else index.set(key, [value]);
+};
+
 const getColumnData = (row: any, header: string | undefined): number => {
     if (!header || row[header] === undefined || row[header] === null) return 0;
     // Handle numbers that might be strings with commas
@@ -31,28 +154,117 @@ const getColumnData = (row: any, header: string | undefined): number => {
     return isNaN(value) ? 0 : value;
 };
 
+/**
+ * A difference is ignored when it is within the absolute tolerance or within the
+ * percentage tolerance of the reference amount, whichever is larger.
+ */
+const isWithinTolerance = (difference: number, reference: number, absolute: number, percentage: number): boolean =>
+    Math.abs(difference) <= Math.max(absolute, Math.abs(reference) * percentage / 100);
+
+/**
+ * Reads a note type cell: 'Credit Note', 'C', 'CN' or 'Cr' and the debit equivalents. Any other
+ * value (Invoice, Purchase, a note of unknown type, ...) gives null and leaves the kind open.
+ */
+const kindFromType = (value: any): string | null => {
+    const text = String(value ?? '').trim().toLowerCase();
+    if (/^(c|cn|cr)\.?$/.test(text) || text.includes('credit')) return DOCUMENT_KINDS.creditNote;
+    if (/^(d|dn|dr)\.?$/.test(text) || text.includes('debit')) return DOCUMENT_KINDS.debitNote;
+    return null;
+};
+
+/**
+ * Stamps every row with its document kind and brings the amounts to one sign convention:
+ * credit notes negative, debit notes positive. The kind comes from the note type column when it
+ * names a note, then from `defaultKind` (a GSTR-2B sheet of a single section), and otherwise
+ * from the sign of the taxable value, as purchase registers record credit notes negative.
+ */
+const stampDocumentKind = (
+    rows: ReconciliationRecord[],
+    typeHeader: string | undefined,
+    taxableHeader: string | undefined,
+    numericHeaders: (string | undefined)[],
+    defaultKind?: string
+) => {
+    const validNumericHeaders = numericHeaders.filter((h): h is string => !!h);
+    rows.forEach(row => {
+        const kind = (typeHeader && kindFromType(row[typeHeader]))
+            || defaultKind
+            || (getColumnData(row, taxableHeader) < 0 ? DOCUMENT_KINDS.creditNote : DOCUMENT_KINDS.invoice);
+        row[DOCUMENT_COLUMN] = kind;
+        if (kind === DOCUMENT_KINDS.invoice) return;
+        const sign = kind === DOCUMENT_KINDS.creditNote ? -1 : 1;
+        validNumericHeaders.forEach(header => {
+            if (row[header] === undefined || row[header] === null || row[header] === '') return;
+            row[header] = sign * Math.abs(getColumnData(row, header));
+        });
+    });
+};
+
+/**
+ * Tags each record with the section it is reconciled under in an All sections run. Both sides
+ * are routed by document kind, as GSTR-2B reports invoices under B2B and notes under CDNR, so
+ * a credit note in the books is only ever paired with a note.
+ */
+const stampSection = (rows: ReconciliationRecord[]) => {
+    rows.forEach(row => {
+        row[SECTION_TAG_COLUMN] = row[DOCUMENT_COLUMN] === DOCUMENT_KINDS.creditNote || row[DOCUMENT_COLUMN] === DOCUMENT_KINDS.debitNote ? 'CDNR' : 'B2B';
+    });
+};
+
+/** Reports progress through the stages, scaled to the overall range of each stage. */
+const createProgressReporter = (onProgress: (progress: ReconciliationProgress) => void) => {
+    const report = (stage: ReconciliationStage, done = 0, total = 1) => {
+        const { label, from, to } = STAGES[stage];
+        onProgress({ stage, label, percent: Math.round(from + (to - from) * (total > 0 ? done / total : 1)) });
+    };
+    const reportRow = (stage: ReconciliationStage, index: number, total: number) => {
+        if (index % PROGRESS_EVERY === 0) report(stage, index, total);
+    };
+    return { report, reportRow };
+};
+
+/**
+ * Stamps each record with its 'YYYY-MM' period: the explicit return period column when there
+ * is one, otherwise the month of the invoice date.
+ */
+const stampPeriod = (rows: ReconciliationRecord[], periodH: string | undefined, dateH: string | undefined) => {
+    rows.forEach(row => {
+        const period = (periodH && parseReturnPeriod(row[periodH]))
+            || (dateH && parseInvoiceDate(row[dateH])?.slice(0, 7))
+            || null;
+        if (period) row[PERIOD_COLUMN] = period;
+    });
+};
+
 /**
  * Consolidates multiple line items for the same invoice into a single record.
- * It groups records by a composite key of GSTIN and Invoice Number, summing up
- * the values in the specified numeric columns.
+ * It groups records by a composite key of GSTIN and Invoice Number (plus the invoice
+ * date when a date column exists, so re-used numbers from different years stay apart,
+ * and the document kind, so a note numbered like an invoice is not added to it),
+ * summing up the values in the specified numeric columns. With `mergeLines` off every
+ * row is kept as its own record; amounts are still parsed and keyless rows still dropped.
  */
 const consolidateInvoices = (
     records: ReconciliationRecord[],
     gstinHeader: string,
     billNoHeader: string,
     legalNameHeader: string | undefined,
-    numericHeaders: (string | undefined)[]
+    numericHeaders: (string | undefined)[],
+    dateHeader?: string,
+    mergeLines: boolean = true
 ): ReconciliationRecord[] => {
     const consolidatedMap = new Map<string, ReconciliationRecord>();
     const validNumericHeaders = numericHeaders.filter((h): h is string => !!h);
 
-    records.forEach(record => {
+    records.forEach((record, index) => {
         const gstin = String(record[gstinHeader] ?? '').trim().toUpperCase();
         const billNo = String(record[billNoHeader] ?? '').trim().toUpperCase();
 
         if (!gstin || !billNo) return; // Skip records without key identifiers
 
-        const key = `${gstin}-${billNo}`;
+        const date = dateHeader ? parseInvoiceDate(record[dateHeader]) ?? '' : '';
+        const kind = record[DOCUMENT_COLUMN] ?? '';
+        const key = mergeLines ? `${gstin}-${billNo}-${date}-${kind}` : `${gstin}-${billNo}-${date}-${kind}-${index}`;
         const existing = consolidatedMap.get(key);
 
         if (!existing) {
@@ -79,12 +291,30 @@ const consolidateInvoices = (
 };
 
 
-const parseExcelFile = (file: File, sheetName: string | undefined, fileNameForError: string): Promise<ReconciliationRecord[]> => {
+/**
+ * Reads the target sheet of a workbook (.xlsx, .xls or .ods) or a delimited text file as an
+ * array of rows. When `sheetName` is given the sheet is looked up by exact name first and then
+ * by a case-insensitive partial match. An `optional` sheet that is not found gives no rows.
+ */
+const readSheetData = (file: File, sheetName: string | undefined, fileNameForError: string, optional = false): Promise<{ sheetName: string; sheetData: any[][]; firstRow: number }> => {
     return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e: ProgressEvent<FileReader>) => {
+        // Blob.arrayBuffer is available in browsers, workers and Node alike, unlike FileReader.
+        file.arrayBuffer().then(buffer => {
             try {
-                const data = new Uint8Array(e.target?.result as ArrayBuffer);
+                const data = new Uint8Array(buffer);
+
+                // Delimited text has a single table; the sheet name does not apply.
+                if (isDelimitedTextFile(file)) {
+                    const sheetData = parseDelimitedText(data);
+                    if (sheetData.length < 1) {
+                        reject(new Error(`The file '${fileNameForError}' is empty.`));
+                        return;
+                    }
+                    resolve({ sheetName: file.name, sheetData, firstRow: 1 });
+                    return;
+                }
+
+                // SheetJS detects .xlsx, .xls and .ods from the file contents.
                 const workbook = XLSX.read(data, { type: 'array' });
                 
                 if (workbook.SheetNames.length === 0) {
@@ -96,7 +326,11 @@ const parseExcelFile = (file: File, sheetName: string | undefined, fileNameForEr
                 if (!targetSheetName) {
                     targetSheetName = workbook.SheetNames[0];
                 } else if (!workbook.SheetNames.includes(targetSheetName)) {
-                    const foundSheet = workbook.SheetNames.find(s => s.toLowerCase().includes(sheetName!.toLowerCase()));
+                    const foundSheet = workbook.SheetNames.find((s: string) => s.toLowerCase().includes(sheetName!.toLowerCase()));
+                    if (!foundSheet && optional) {
+                        resolve({ sheetName: sheetName!, sheetData: [], firstRow: 1 });
+                        return;
+                    }
                     if (!foundSheet) {
                        reject(new Error(`Sheet containing '${sheetName}' not found in ${fileNameForError}. Please check the sheet name or select 'Others'.`));
                        return;
@@ -104,7 +338,7 @@ const parseExcelFile = (file: File, sheetName: string | undefined, fileNameForEr
                     targetSheetName = foundSheet;
                 }
 
-                const worksheet = workbook.Sheets[targetSheetName];
+                const worksheet = workbook.Sheets[targetSheetName!];
                 if (!worksheet) {
                     reject(new Error(`Sheet '${targetSheetName}' in ${fileNameForError} could not be found or read.`));
                     return;
@@ -117,271 +351,1277 @@ const parseExcelFile = (file: File, sheetName: string | undefined, fileNameForEr
                     return;
                 }
 
-                // Find header row by looking for essential columns
-                let headerRowIndex = -1;
-                let headers: string[] = [];
-                const requiredAliasSets = [COLUMN_ALIASES.gstin, COLUMN_ALIASES.billNo];
+                // sheet_to_json starts at the first used row, which need not be row 1.
+                const firstRow = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r + 1 : 1;
+                resolve({ sheetName: targetSheetName!, sheetData, firstRow });
+            } catch (err) {
+                 reject(new Error(`Failed to parse ${fileNameForError}. Please ensure it is a valid .xlsx, .xls, .ods or CSV file, not password protected, and the format is correct.`));
+            }
+        }, () => reject(new Error(`Failed to read the file: ${fileNameForError}.`)));
+    });
+};
+
+const HEADER_SEARCH_ROWS = 15;
 
-                for (let i = 0; i < Math.min(15, sheetData.length); i++) {
-                    const row = (sheetData[i] || []).map(h => String(h || '').trim());
-                    if (row.length === 0) continue;
+/**
+ * Finds the header row by looking for essential columns in the first rows of the sheet.
+ * Returns -1 when no row contains a cell from every required alias set.
+ */
+const findHeaderRowIndex = (sheetData: any[][], requiredAliasSets: string[][]): number => {
+    for (let i = 0; i < Math.min(HEADER_SEARCH_ROWS, sheetData.length); i++) {
+        const row = (sheetData[i] || []).map(h => String(h || '').trim());
+        if (row.length === 0) continue;
 
-                    let matchCount = 0;
-                    for (const aliasSet of requiredAliasSets) {
-                        if (row.some(cell => aliasSet.some(alias => alias.toLowerCase() === cell.toLowerCase()))) {
-                            matchCount++;
-                        }
-                    }
-                    if (matchCount >= requiredAliasSets.length) {
-                        headerRowIndex = i;
-                        headers = sheetData[i].map(h => String(h || '').trim());
-                        break;
-                    }
-                }
+        let matchCount = 0;
+        for (const aliasSet of requiredAliasSets) {
+            if (row.some(cell => aliasSet.some(alias => alias.toLowerCase() === cell.toLowerCase()))) {
+                matchCount++;
+            }
+        }
+        if (matchCount >= requiredAliasSets.length) return i;
+    }
+    return -1;
+};
 
-                if (headerRowIndex === -1) {
-                    reject(new Error(`Could not find a valid header row containing both GSTIN and Invoice Number columns in ${fileNameForError}. Please ensure the headers are present in the first 15 rows of the sheet.`));
-                    return;
-                }
+/**
+ * The required alias sets for header detection, one per key field. A column mapping pins a
+ * key field to the exact header the user picked; otherwise the built-in aliases are used.
+ */
+const requiredAliasSetsFor = (mapping?: ColumnMapping, keyFields: ColumnField[] = INVOICE_KEY_FIELDS): string[][] =>
+    keyFields.map(field => mapping?.[field] ? [mapping[field]!] : COLUMN_ALIASES[field]);
+
+const keyFieldLabels = (keyFields: ColumnField[]): string =>
+    keyFields.map(field => COLUMN_FIELDS.find(f => f.field === field)?.label ?? field).join(' and ');
 
-                // Convert data rows to JSON using the found headers
-                const dataRows = sheetData.slice(headerRowIndex + 1);
-                const jsonData = dataRows
-                    .map(rowArray => {
-                        const record: ReconciliationRecord = {};
-                        headers.forEach((header, index) => {
-                            if (header && index < rowArray.length) {
-                                record[header] = rowArray[index];
-                            }
-                        });
-                        return record;
-                    })
-                    .filter(record => Object.values(record).some(val => val !== null && val !== ''));
-
-                if (jsonData.length === 0) {
-                     reject(new Error(`Found headers in ${fileNameForError}, but no data rows underneath.`));
-                     return;
+// Converts the rows below the header row into records keyed by the given headers, dropping empty
+// rows. Each record keeps its row number in the sheet, given the number of the first row read.
+const toRecords = (sheetData: any[][], headerRowIndex: number, headers: string[], firstRow: number): ReconciliationRecord[] =>
+    sheetData.slice(headerRowIndex + 1)
+        .map((rowArray, rowIndex) => {
+            const record: ReconciliationRecord = {};
+            headers.forEach((header, index) => {
+                if (header && index < rowArray.length) {
+                    record[header] = rowArray[index];
                 }
+            });
+            if (!Object.values(record).some(val => val !== null && val !== '')) return null;
+            record[SOURCE_ROW_COLUMN] = firstRow + headerRowIndex + 1 + rowIndex;
+            return record;
+        })
+        .filter((record): record is ReconciliationRecord => record !== null);
 
-                resolve(jsonData);
-            } catch (err) {
-                 reject(new Error(`Failed to parse ${fileNameForError}. Please ensure it is a valid .xlsx file, not password protected, and the format is correct.`));
+const parseExcelFile = async (
+    file: File,
+    sheetName: string | undefined,
+    fileNameForError: string,
+    mapping?: ColumnMapping,
+    keyFields: ColumnField[] = INVOICE_KEY_FIELDS
+): Promise<ReconciliationRecord[]> => {
+    const { sheetData, firstRow } = await readSheetData(file, sheetName, fileNameForError);
+
+    const headerRowIndex = findHeaderRowIndex(sheetData, requiredAliasSetsFor(mapping, keyFields));
+    if (headerRowIndex === -1) {
+        throw new Error(`Could not find a valid header row containing the ${keyFieldLabels(keyFields)} columns in ${fileNameForError}. Please ensure the headers are present in the first 15 rows of the sheet.`);
+    }
+    const headers = sheetData[headerRowIndex].map(h => String(h || '').trim());
+
+    // Convert data rows to JSON using the found headers
+    const jsonData = toRecords(sheetData, headerRowIndex, headers, firstRow);
+
+    if (jsonData.length === 0) {
+        throw new Error(`Found headers in ${fileNameForError}, but no data rows underneath.`);
+    }
+
+    return jsonData;
+};
+
+/**
+ * Reads a further sheet of the GSTR-2B Excel download (B2BA, CDNRA, IMPGSEZ, ...), which may be
+ * missing or empty and then gives no records. Amendment sheets repeat the number and date
+ * headers, first for the original document and then for the revised one, so the earlier
+ * occurrences of a repeated header get ORIGINAL_PREFIX.
+ */
+const parseOptionalSheet = async (
+    file: File,
+    sheetName: string,
+    fileNameForError: string,
+    mapping?: ColumnMapping,
+    keyFields: ColumnField[] = INVOICE_KEY_FIELDS
+): Promise<ReconciliationRecord[]> => {
+    if (isDelimitedTextFile(file)) return [];
+    const { sheetData, firstRow } = await readSheetData(file, sheetName, fileNameForError, true);
+
+    const headerRowIndex = findHeaderRowIndex(sheetData, requiredAliasSetsFor(mapping, keyFields));
+    if (headerRowIndex === -1) return [];
+    const headers = sheetData[headerRowIndex].map(h => String(h || '').trim());
+    const renamed = headers.map((header, index) => header && headers.indexOf(header, index + 1) !== -1 ? `${ORIGINAL_PREFIX}${header}` : header);
+
+    return toRecords(sheetData, headerRowIndex, renamed, firstRow);
+};
+
+/**
+ * Renames the columns of records read from one sheet to the headers another sheet uses for the
+ * same fields, e.g. 'Note number' on the CDNR sheet to 'Invoice number' on the B2B sheet.
+ */
+const alignHeaders = (records: ReconciliationRecord[], referenceHeaders: string[]): ReconciliationRecord[] => {
+    if (records.length === 0) return records;
+    const ownHeaders = Object.keys(records[0]);
+    const renames = COLUMN_FIELDS
+        .map(({ field }) => [findHeader(ownHeaders, COLUMN_ALIASES[field]), findHeader(referenceHeaders, COLUMN_ALIASES[field])])
+        .filter((pair): pair is [string, string] => !!pair[0] && !!pair[1] && pair[0] !== pair[1]);
+    if (renames.length === 0) return records;
+    return records.map(row => {
+        const aligned = { ...row };
+        renames.forEach(([from, to]) => {
+            aligned[to] = row[from];
+            delete aligned[from];
+        });
+        return aligned;
+    });
+};
+
+/**
+ * Reads the B2B and CDNR sheets of the GSTR-2B Excel download and their amendment sheets for an
+ * All sections run. Each record is tagged with its sheet under SECTION_COLUMN, as in the portal
+ * JSON. The sheets name the same fields differently, so their columns are aligned to one header
+ * per field, the first alias found on any sheet.
+ */
+const parseAllSections = async (file: File, fileNameForError: string): Promise<ReconciliationRecord[]> => {
+    const sheetNames = INVOICE_SECTIONS;
+    const sheets = await Promise.all(sheetNames.map(sheetName => parseOptionalSheet(file, sheetName, fileNameForError)));
+    const referenceHeaders = Array.from(new Set(sheets.flatMap(records => Object.keys(records[0] ?? {}))));
+    if (referenceHeaders.length === 0) {
+        throw new Error(`Could not find the ${sheetNames.join(', ')} sheets with GSTIN and Invoice Number columns in ${fileNameForError}.`);
+    }
+    return sheets.flatMap((records, index) => alignHeaders(records, referenceHeaders).map(row => ({ ...row, [SECTION_COLUMN]: sheetNames[index] })));
+};
+
+/**
+ * The headers of a record set. Records merged from several sections differ in their columns,
+ * so the headers of the first record of each section are combined.
+ */
+const headersOf = (records: ReconciliationRecord[]): string[] => {
+    const firstOfSection = new Map<any, ReconciliationRecord>();
+    records.forEach(row => {
+        if (!firstOfSection.has(row[SECTION_COLUMN])) firstOfSection.set(row[SECTION_COLUMN], row);
+    });
+    return Array.from(new Set(Array.from(firstOfSection.values()).flatMap(row => Object.keys(row))));
+};
+
+/**
+ * Reads the header row of a file for the column-mapping step. Falls back to the row with
+ * the most text cells when the aliases do not identify a header row, so that exports with
+ * unfamiliar headers can still be mapped by hand. Guesses come from the built-in aliases.
+ */
+export const detectColumns = async (
+    file: File,
+    sheetName: string | undefined,
+    fileNameForError: string,
+    keyFields: ColumnField[] = INVOICE_KEY_FIELDS
+): Promise<DetectedColumns> => {
+    const { sheetName: targetSheetName, sheetData } = await readSheetData(file, sheetName, fileNameForError);
+
+    let headerRowIndex = findHeaderRowIndex(sheetData, requiredAliasSetsFor(undefined, keyFields));
+    const recognised = headerRowIndex !== -1;
+    if (!recognised) {
+        let bestCount = 0;
+        sheetData.slice(0, HEADER_SEARCH_ROWS).forEach((row, i) => {
+            const textCells = (row || []).filter(cell => typeof cell === 'string' && cell.trim() !== '').length;
+            if (textCells > bestCount) {
+                bestCount = textCells;
+                headerRowIndex = i;
             }
+        });
+    }
+    if (headerRowIndex === -1) {
+        throw new Error(`Could not find any header row in the first 15 rows of ${fileNameForError}.`);
+    }
+
+    const headers = sheetData[headerRowIndex].map(h => String(h || '').trim()).filter(h => h !== '');
+    const guesses: ColumnMapping = {};
+    COLUMN_FIELDS.forEach(({ field }) => {
+        const found = findHeader(headers, COLUMN_ALIASES[field]);
+        if (found) guesses[field] = found;
+    });
+
+    return { sheetName: targetSheetName, headerRowNumber: headerRowIndex + 1, headers, guesses, recognised };
+};
+
+// --- Pairing and Reporting ---
+
+// Columns the reconciliation adds to a record; every other column comes from the source files.
+// Paired records carry the GSTR-2B side under GSTR2B_PREFIX.
+export const RECON_COLUMNS = [
+    'Recon Status',
+    'Reason Code',
+    'Match Rule',
+    'Date Check',
+    'Period Timing',
+    'Group ID',
+    'Group Type',
+    'Group Books Invoices',
+    'Group GSTR-2B Invoices',
+    'Diff Taxable Value (₹)',
+    'Diff Integrated Tax(₹)',
+    'Diff Central Tax(₹)',
+    'Diff State/UT Tax(₹)',
+    'Diff Cess(₹)',
+    'Override Remark',
+    'ITC Status',
+    'ITC Amount (₹)',
+    'ITC Reason',
+    'RCM Supply',
+    GSTIN_SUGGESTION_COLUMNS.gstin,
+    GSTIN_SUGGESTION_COLUMNS.note,
+];
+
+export const GSTR2B_PREFIX = 'GSTR2B_';
+
+// Categories whose records pair a book row with GSTR-2B rows.
+export const PAIRED_CATEGORIES: (keyof ResultCategories)[] = [
+    'matchedRecords',
+    'differentPeriodRecords',
+    'valueMismatchRecords',
+    'taxHeadMismatchRecords',
+    'cessMismatchRecords',
+    'normalizedMatchedRecords',
+    'partiallyMatchedRecords',
+    'groupMatchedRecords',
+    'manuallyMatchedRecords',
+];
+
+// Categories of records found on one side only, by document kind.
+export const ONLY_IN_BOOKS_CATEGORIES: (keyof ResultCategories)[] = [
+    'invoicesInBookNotInGstr2b',
+    'creditNotesInBookNotInGstr2b',
+    'debitNotesInBookNotInGstr2b',
+];
+
+export const ONLY_IN_GSTR2B_CATEGORIES: (keyof ResultCategories)[] = [
+    'invoicesInGstr2bNotInBook',
+    'creditNotesInGstr2bNotInBook',
+    'debitNotesInGstr2bNotInBook',
+];
+
+// Categories of an import run, which reconciles bills of entry instead of invoices.
+export const IMPORT_CATEGORIES: (keyof ResultCategories)[] = [
+    'importMatchedRecords',
+    'importMismatchRecords',
+    'importsInBookNotInGstr2b',
+    'importsInGstr2bNotInBook',
+];
+
+/**
+ * Builds the pair helpers of a run from its resolved headers and options. The matching passes
+ * use them during the run and manual overrides use them afterwards, so a forced pair is
+ * compared exactly like an automatic one.
+ */
+export const createPairComparer = (columns: ReconciliationResult['columns'], options: ReconciliationOptions) => {
+    const { tolerance, percentageTolerance } = options;
+    const { books, gstr2b } = columns;
+
+    /**
+     * Compares the derived periods of a pair. Returns null when either side has no period
+     * or both fall in the same month.
+     */
+    const periodTiming = (bookRow: ReconciliationRecord, gstrRow: ReconciliationRecord): string | null => {
+        const bookPeriod = bookRow[PERIOD_COLUMN];
+        const gstrPeriod = gstrRow[PERIOD_COLUMN];
+        if (!bookPeriod || !gstrPeriod || bookPeriod === gstrPeriod) return null;
+        return bookPeriod < gstrPeriod ? 'Books period earlier than 2B' : 'Books period later than 2B';
+    };
+
+    /**
+     * Compares the amounts of a pair head by head. A difference inside the configured
+     * tolerance counts as zero. The reason code says what kind of difference remains:
+     * tax booked under IGST on one side and CGST/SGST on the other takes precedence,
+     * then any taxable or tax difference, then a difference in cess alone.
+     */
+    const compareAmounts = (bookRow: ReconciliationRecord, gstrRow: ReconciliationRecord) => {
+        const heads = {
+            taxable: { book: getColumnData(bookRow, books.taxableValue), gstr: getColumnData(gstrRow, gstr2b.taxableValue), tolerance: tolerance.taxableValue },
+            igst: { book: getColumnData(bookRow, books.integratedTax), gstr: getColumnData(gstrRow, gstr2b.integratedTax), tolerance: tolerance.integratedTax },
+            cgst: { book: getColumnData(bookRow, books.centralTax), gstr: getColumnData(gstrRow, gstr2b.centralTax), tolerance: tolerance.centralTax },
+            sgst: { book: getColumnData(bookRow, books.stateTax), gstr: getColumnData(gstrRow, gstr2b.stateTax), tolerance: tolerance.stateTax },
+            cess: { book: getColumnData(bookRow, books.cess), gstr: getColumnData(gstrRow, gstr2b.cess), tolerance: tolerance.cess },
+        };
+        const diff = (head: keyof typeof heads) => heads[head].book - heads[head].gstr;
+        const differs = (head: keyof typeof heads) => !isWithinTolerance(diff(head), heads[head].book, heads[head].tolerance, percentageTolerance);
+        const formatDiff = (head: keyof typeof heads) => differs(head) ? diff(head).toFixed(2) : '0.00';
+
+        const isInterstate = (igst: number, cgst: number, sgst: number) => Math.abs(igst) > tolerance.integratedTax && Math.abs(cgst + sgst) <= tolerance.centralTax + tolerance.stateTax;
+        const isIntrastate = (igst: number, cgst: number, sgst: number) => Math.abs(cgst + sgst) > tolerance.centralTax + tolerance.stateTax && Math.abs(igst) <= tolerance.integratedTax;
+        const bookHeads = [heads.igst.book, heads.cgst.book, heads.sgst.book] as const;
+        const gstrHeads = [heads.igst.gstr, heads.cgst.gstr, heads.sgst.gstr] as const;
+        const taxHeadMismatch = (isInterstate(...bookHeads) && isIntrastate(...gstrHeads)) || (isIntrastate(...bookHeads) && isInterstate(...gstrHeads));
+
+        let reasonCode: ReasonCode = 'MATCHED';
+        if (taxHeadMismatch) reasonCode = 'TAX_HEAD_MISMATCH';
+        else if (differs('taxable') || differs('igst') || differs('cgst') || differs('sgst')) reasonCode = 'VALUE_MISMATCH';
+        else if (differs('cess')) reasonCode = 'CESS_MISMATCH';
+
+        return {
+            reasonCode,
+            diffColumns: {
+                'Diff Taxable Value (₹)': formatDiff('taxable'),
+                'Diff Integrated Tax(₹)': formatDiff('igst'),
+                'Diff Central Tax(₹)': formatDiff('cgst'),
+                'Diff State/UT Tax(₹)': formatDiff('sgst'),
+                'Diff Cess(₹)': formatDiff('cess'),
+            },
         };
-        reader.onerror = () => reject(new Error(`Failed to read the file: ${fileNameForError}.`));
-        reader.readAsArrayBuffer(file);
+    };
+
+    /**
+     * Builds a matched record from a book row and its GSTR-2B counterpart, with the
+     * reason code, the per-head differences and the GSTR-2B columns prefixed so both
+     * sides stay visible side by side.
+     */
+    const buildMatchedRecord = (bookRow: ReconciliationRecord, gstrRow: ReconciliationRecord, status: string, extra: ReconciliationRecord = {}): ReconciliationRecord => {
+        const { reasonCode, diffColumns } = compareAmounts(bookRow, gstrRow);
+        const gstrRenamed = Object.fromEntries(
+            Object.entries(gstrRow).map(([k, v]) => [`${GSTR2B_PREFIX}${k}`, v])
+        );
+
+        const timing = periodTiming(bookRow, gstrRow);
+
+        return {
+            ...bookRow,
+            'Recon Status': status,
+            'Reason Code': reasonCode,
+            ...extra,
+            ...(timing ? { 'Period Timing': timing } : {}),
+            ...diffColumns,
+            ...gstrRenamed,
+        };
+    };
+
+    return { periodTiming, compareAmounts, buildMatchedRecord };
+};
+
+/**
+ * The document kind a GSTR-2B sheet implies when its rows carry no note type: the B2B sheet
+ * holds invoices and the CDNR sheet notes, which are credit notes far more often than not.
+ */
+const defaultGstr2bKind = (source: ReconciliationSource): string | undefined => {
+    if (source.gstr2bIsJson) return undefined;
+    if (source.gstr2bType === 'B2B') return DOCUMENT_KINDS.invoice;
+    if (source.gstr2bType === 'CDNR') return DOCUMENT_KINDS.creditNote;
+    return undefined;
+};
+
+/**
+ * Splits records by the document kind stamped during the run. Results stored before the kind
+ * was stamped fall back to the sheet type and then to the sign of the taxable value.
+ */
+const splitByKind = (rows: ReconciliationRecord[], taxableH: string | undefined, defaultKind?: string) => {
+    const kindOf = (row: ReconciliationRecord) => row[DOCUMENT_COLUMN]
+        ?? defaultKind
+        ?? (getColumnData(row, taxableH) < 0 ? DOCUMENT_KINDS.creditNote : DOCUMENT_KINDS.invoice);
+    return {
+        invoices: rows.filter(row => kindOf(row) === DOCUMENT_KINDS.invoice),
+        creditNotes: rows.filter(row => kindOf(row) === DOCUMENT_KINDS.creditNote),
+        debitNotes: rows.filter(row => kindOf(row) === DOCUMENT_KINDS.debitNote),
+    };
+};
+
+/** Every record category, empty; each run fills in the categories it produces. */
+export const emptyCategories = (): ResultCategories => ({
+    matchedRecords: [],
+    differentPeriodRecords: [],
+    valueMismatchRecords: [],
+    taxHeadMismatchRecords: [],
+    cessMismatchRecords: [],
+    normalizedMatchedRecords: [],
+    partiallyMatchedRecords: [],
+    groupMatchedRecords: [],
+    manuallyMatchedRecords: [],
+    invoicesInBookNotInGstr2b: [],
+    creditNotesInBookNotInGstr2b: [],
+    debitNotesInBookNotInGstr2b: [],
+    invoicesInGstr2bNotInBook: [],
+    creditNotesInGstr2bNotInBook: [],
+    debitNotesInGstr2bNotInBook: [],
+    importMatchedRecords: [],
+    importMismatchRecords: [],
+    importsInBookNotInGstr2b: [],
+    importsInGstr2bNotInBook: [],
+    suspectedDuplicateRecords: [],
+});
+
+/**
+ * Sorts the records found on one side only into the invoice, credit note and debit note
+ * categories; the other categories are empty.
+ */
+export const categorizeUnmatched = (
+    onlyInBooks: ReconciliationRecord[],
+    onlyInGstr2b: ReconciliationRecord[],
+    columns: ReconciliationResult['columns'],
+    source: ReconciliationSource
+): ResultCategories => {
+    const books = splitByKind(onlyInBooks, columns.books.taxableValue);
+    const gstr2b = splitByKind(onlyInGstr2b, columns.gstr2b.taxableValue, defaultGstr2bKind(source));
+
+    return {
+        ...emptyCategories(),
+        invoicesInBookNotInGstr2b: books.invoices,
+        creditNotesInBookNotInGstr2b: books.creditNotes,
+        debitNotesInBookNotInGstr2b: books.debitNotes,
+        invoicesInGstr2bNotInBook: gstr2b.invoices,
+        creditNotesInGstr2bNotInBook: gstr2b.creditNotes,
+        debitNotesInGstr2bNotInBook: gstr2b.debitNotes,
+    };
+};
+
+export const ITC_STATUS = {
+    available: 'Available',
+    notAvailable: 'Not available',
+    notInGstr2b: 'Not in GSTR-2B',
+};
+
+// GSTR-2B writes Yes/No in the Excel download and Y/N in the JSON.
+const isYes = (value: any) => /^(y|yes)$/i.test(String(value ?? '').trim());
+const isNo = (value: any) => /^(n|no)$/i.test(String(value ?? '').trim());
+
+/**
+ * Adds the ITC columns to a record, read from its GSTR-2B side: the availability reported in
+ * GSTR-2B, the reason given when it is not available, the ITC amount and whether the supply
+ * attracts reverse charge. A record found only in the books has no ITC in GSTR-2B to claim;
+ * its reverse charge flag comes from the books when they carry one.
+ */
+export const stampItc = (record: ReconciliationRecord, columns: ReconciliationResult['columns']): ReconciliationRecord => {
+    const onlyInBooks = record['Reason Code'] === 'ONLY_IN_BOOKS';
+    const header = (field: ColumnField) => {
+        const mapped = onlyInBooks ? columns.books[field] : columns.gstr2b[field];
+        if (!mapped) return undefined;
+        return onlyInBooks || record['Reason Code'] === 'ONLY_IN_GSTR2B' ? mapped : `${GSTR2B_PREFIX}${mapped}`;
+    };
+    const headerOf = (field: ColumnField) => header(field) ?? '';
+    const amount = (['integratedTax', 'centralTax', 'stateTax', 'cess'] as ColumnField[])
+        .reduce((sum, field) => sum + getColumnData(record, header(field)), 0);
+
+    record['ITC Status'] = onlyInBooks
+        ? ITC_STATUS.notInGstr2b
+        : isNo(record[headerOf('itcAvailability')]) ? ITC_STATUS.notAvailable : ITC_STATUS.available;
+    record['ITC Amount (₹)'] = Math.round(amount * 100) / 100;
+    record['ITC Reason'] = onlyInBooks ? null : record[headerOf('itcReason')] || null;
+    record['RCM Supply'] = isYes(record[headerOf('reverseCharge')]) ? 'Yes' : 'No';
+    return record;
+};
+
+const emptyItcTotals = (): ItcTotals => ({ claimable: 0, blocked: 0 });
+
+/** Drops the repeats of a GSTR-2B row across the member rows of a group, so it counts once. */
+const distinctGstr2bInvoices = (records: ReconciliationRecord[], gstr2bBillNoH: string | undefined): ReconciliationRecord[] => {
+    const seen = new Set<string>();
+    return records.filter(record => {
+        if (!record['Group ID']) return true;
+        const key = `${record['Group ID']}|${record[`${GSTR2B_PREFIX}${gstr2bBillNoH}`]}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/** Sums the ITC of stamped records; a GSTR-2B row repeated across a group counts once. */
+const sumItc = (records: ReconciliationRecord[], gstr2bBillNoH: string | undefined): ItcTotals => {
+    const totals = emptyItcTotals();
+    distinctGstr2bInvoices(records, gstr2bBillNoH).forEach(record => {
+        const amount = Number(record['ITC Amount (₹)']) || 0;
+        if (record['ITC Status'] === ITC_STATUS.available) totals.claimable += amount;
+        else totals.blocked += amount;
+    });
+    return totals;
+};
+
+const roundTotals = (totals: ItcTotals): ItcTotals => ({
+    claimable: Math.round(totals.claimable * 100) / 100,
+    blocked: Math.round(totals.blocked * 100) / 100,
+});
+
+// Counts paired records, with each group match counted once.
+const countPairs = (records: ReconciliationRecord[]) =>
+    records.filter(r => !r['Group ID']).length + new Set(records.filter(r => r['Group ID']).map(r => r['Group ID'])).size;
+
+/** Subtotals per section for runs whose records carry a section tag; empty for other runs. */
+const sectionSubtotals = (categories: ResultCategories, gstr2bBillNoH: string | undefined): SectionSubtotal[] =>
+    ALL_SECTION_SHEETS.flatMap(section => {
+        const inSection = (keys: (keyof ResultCategories)[]) => keys.flatMap(key => categories[key]).filter(r => r[SECTION_TAG_COLUMN] === section);
+        const paired = inSection(PAIRED_CATEGORIES.filter(key => key !== 'partiallyMatchedRecords'));
+        const partiallyMatched = inSection(['partiallyMatchedRecords']);
+        const onlyInBooks = inSection(ONLY_IN_BOOKS_CATEGORIES);
+        const onlyInGstr2b = inSection(ONLY_IN_GSTR2B_CATEGORIES);
+        const records = [...paired, ...partiallyMatched, ...onlyInBooks, ...onlyInGstr2b];
+        if (records.length === 0) return [];
+        return [{
+            section,
+            matched: countPairs(paired.filter(r => r['Reason Code'] === 'MATCHED')),
+            mismatched: countPairs(paired.filter(r => r['Reason Code'] !== 'MATCHED')),
+            partiallyMatched: partiallyMatched.length,
+            onlyInBooks: onlyInBooks.length,
+            onlyInGstr2b: onlyInGstr2b.length,
+            itc: roundTotals(sumItc(records, gstr2bBillNoH)),
+        }];
+    });
+
+/**
+ * Suggests a GSTIN for records found only in the books under a GSTIN that GSTR-2B does not
+ * have, often a typo: the GSTR-2B GSTINs one character off it. When some of them have the same
+ * invoice number found only in GSTR-2B, only those are suggested.
+ */
+const suggestGstins = (
+    onlyInBooks: ReconciliationRecord[],
+    onlyInGstr2b: ReconciliationRecord[],
+    gstr2bRecords: ReconciliationRecord[],
+    columns: ReconciliationResult['columns']
+) => {
+    const { gstin: bookGstinH, billNo: bookBillNoH } = columns.books;
+    const { gstin: gstrGstinH, billNo: gstrBillNoH } = columns.gstr2b;
+    if (!bookGstinH || !bookBillNoH || !gstrGstinH || !gstrBillNoH) return;
+
+    const compact = (value: any) => String(value ?? '').replace(/\s/g, '').toUpperCase();
+    const gstr2bGstins = new Set(gstr2bRecords.map(row => compact(row[gstrGstinH])));
+    const nearMisses = createNearMissIndex(gstr2bGstins);
+    const unmatchedInGstr2b = new Set(onlyInGstr2b.map(row => `${compact(row[gstrGstinH])}|${compact(row[gstrBillNoH])}`));
+
+    onlyInBooks.forEach(row => {
+        const gstin = compact(row[bookGstinH]);
+        if (gstr2bGstins.has(gstin)) return;
+        const candidates = nearMisses(gstin);
+        if (candidates.length === 0) return;
+        const withInvoice = candidates.filter(candidate => unmatchedInGstr2b.has(`${candidate}|${compact(row[bookBillNoH])}`));
+        row[GSTIN_SUGGESTION_COLUMNS.gstin] = (withInvoice.length > 0 ? withInvoice : candidates).join(', ');
+        row[GSTIN_SUGGESTION_COLUMNS.note] = withInvoice.length > 0
+            ? `Invoice ${row[bookBillNoH]} is only in GSTR-2B under this GSTIN`
+            : 'One character off a supplier GSTIN in GSTR-2B';
     });
 };
 
+/**
+ * Builds the final report and the summary counts from the record categories of a run.
+ * Called at the end of every run and again after each manual override.
+ */
+export const summarizeResult = (
+    categories: ResultCategories,
+    totals: { totalInBooks: number; totalInGstr2b: number },
+    columns: ReconciliationResult['columns']
+): Pick<ReconciliationResult, 'summary' | 'finalReport'> => {
+    const pairedRecords = PAIRED_CATEGORIES.flatMap(key => categories[key]);
+    const onlyInBooks = ONLY_IN_BOOKS_CATEGORIES.flatMap(key => categories[key]);
+    const onlyInGstr2b = ONLY_IN_GSTR2B_CATEGORIES.flatMap(key => categories[key]);
+    const importPairs = [...categories.importMatchedRecords, ...categories.importMismatchRecords];
+    const importsOnlyInOneSide = [...categories.importsInBookNotInGstr2b, ...categories.importsInGstr2bNotInBook];
+
+    // The per-head Diff columns stay in the final report so that the reason behind each
+    // mismatch status can be seen next to it.
+    const finalReport = [...pairedRecords, ...onlyInBooks, ...onlyInGstr2b, ...importPairs, ...importsOnlyInOneSide];
+
+    // Invoice-level counts take each GSTR-2B invoice of a group once, like the ITC totals.
+    const invoices = distinctGstr2bInvoices(finalReport, columns.gstr2b.billNo);
+    // A group carries its reason code on every member row but counts once, as in groupMatched.
+    const countReason = (code: ReasonCode, records = finalReport) => countPairs(records.filter(r => r['Reason Code'] === code));
+    const agreeingPairs = pairedRecords.filter(r => r['Reason Code'] === 'MATCHED');
+
+    const matchedItc = sumItc([...PAIRED_CATEGORIES.filter(key => key !== 'partiallyMatchedRecords').flatMap(key => categories[key]), ...importPairs], columns.gstr2b.billNo);
+    const partiallyMatchedItc = sumItc(categories.partiallyMatchedRecords, columns.gstr2b.billNo);
+    const unmatchedItc = sumItc([...onlyInBooks, ...onlyInGstr2b, ...importsOnlyInOneSide], columns.gstr2b.billNo);
+    const sections = sectionSubtotals(categories, columns.gstr2b.billNo);
+
+    return {
+        summary: {
+            ...totals,
+            matched: countPairs(agreeingPairs.filter(r => !r['Period Timing'])),
+            matchedDifferentPeriod: countPairs(agreeingPairs.filter(r => r['Period Timing'])),
+            valueMismatch: countReason('VALUE_MISMATCH', pairedRecords),
+            taxHeadMismatch: countReason('TAX_HEAD_MISMATCH', pairedRecords),
+            cessMismatch: countReason('CESS_MISMATCH', pairedRecords),
+            booksPeriodEarlier: pairedRecords.filter(r => r['Period Timing'] === 'Books period earlier than 2B').length,
+            booksPeriodLater: pairedRecords.filter(r => r['Period Timing'] === 'Books period later than 2B').length,
+            normalizedMatched: categories.normalizedMatchedRecords.length,
+            partiallyMatched: categories.partiallyMatchedRecords.length,
+            groupMatched: new Set(categories.groupMatchedRecords.map(r => r['Group ID'])).size,
+            manuallyMatched: categories.manuallyMatchedRecords.length,
+            onlyInBooks: onlyInBooks.length,
+            onlyInGstr2b: onlyInGstr2b.length,
+            reasonCodes: {
+                MATCHED: countReason('MATCHED'),
+                VALUE_MISMATCH: countReason('VALUE_MISMATCH'),
+                TAX_HEAD_MISMATCH: countReason('TAX_HEAD_MISMATCH'),
+                CESS_MISMATCH: countReason('CESS_MISMATCH'),
+                ONLY_IN_BOOKS: countReason('ONLY_IN_BOOKS'),
+                ONLY_IN_GSTR2B: countReason('ONLY_IN_GSTR2B'),
+            },
+            itcNotAvailable: invoices.filter(r => r['ITC Status'] === ITC_STATUS.notAvailable).length,
+            reverseCharge: invoices.filter(r => r['RCM Supply'] === 'Yes').length,
+            amendedInGstr2b: finalReport.filter(r => r[AMENDED_COLUMN] === 'Yes' || r[`${GSTR2B_PREFIX}${AMENDED_COLUMN}`] === 'Yes').length,
+            suspectedDuplicates: categories.suspectedDuplicateRecords.length,
+            gstinSuggestions: onlyInBooks.filter(r => r[GSTIN_SUGGESTION_COLUMNS.gstin]).length,
+            imports: {
+                matched: categories.importMatchedRecords.length,
+                mismatched: categories.importMismatchRecords.length,
+                onlyInBooks: categories.importsInBookNotInGstr2b.length,
+                onlyInGstr2b: categories.importsInGstr2bNotInBook.length,
+            },
+            ...(sections.length > 0 ? { sections } : {}),
+            itc: {
+                matched: roundTotals(matchedItc),
+                partiallyMatched: roundTotals(partiallyMatchedItc),
+                unmatched: roundTotals(unmatchedItc),
+                total: roundTotals({
+                    claimable: matchedItc.claimable + partiallyMatchedItc.claimable + unmatchedItc.claimable,
+                    blocked: matchedItc.blocked + partiallyMatchedItc.blocked + unmatchedItc.blocked,
+                }),
+            },
+        },
+        finalReport,
+    };
+};
+
 // --- Main Reconciliation Logic ---
 
+/** The GSTR-2B sheet to read for a report type; 'Other' uses the first sheet and 'All' reads several. */
+export const sheetNameForType = (gstr2bType: Gstr2bType): string | undefined =>
+    gstr2bType === 'Other' || gstr2bType === 'All' ? undefined : gstr2bType;
+
 export const reconcileData = async (
     booksFile: File,
     gstr2bFile: File,
-    gstr2bType: Gstr2bType
+    gstr2bType: Gstr2bType,
+    options: ReconciliationOptions = DEFAULT_RECONCILIATION_OPTIONS,
+    columnMappings: ColumnMappings = {},
+    onProgress: (progress: ReconciliationProgress) => void = () => {}
 ): Promise<ReconciliationResult> => {
-    const gstr2bSheetName = gstr2bType === 'B2B' ? 'B2B' : gstr2bType === 'CDNR' ? 'CDNR' : undefined;
+    if (gstr2bType === 'IMPG') return reconcileImports(booksFile, gstr2bFile, options, columnMappings, onProgress);
+    const { tolerance, percentageTolerance } = options;
 
-    const [rawBooksSheet, rawGstr2bSheet] = await Promise.all([
-        parseExcelFile(booksFile, undefined, 'Purchase Report'),
-        parseExcelFile(gstr2bFile, gstr2bSheetName, 'GSTR-2B Report'),
+    const { report, reportRow } = createProgressReporter(onProgress);
+    report('parsing');
+
+    const gstr2bSheetName = sheetNameForType(gstr2bType);
+    // The portal JSON carries every section in one file, so the sheet-name guess does not apply.
+    const gstr2bIsJson = isJsonFile(gstr2bFile);
+    const allSections = gstr2bType === 'All';
+    // Records of the JSON and of an All sections workbook are tagged with the section they came from.
+    const sectionTagged = gstr2bIsJson || allSections;
+
+    const amendmentSheetName = sectionTagged ? undefined : AMENDMENT_SHEETS[gstr2bType];
+    const [rawBooksSheet, gstr2bSections, excelAmendments] = await Promise.all([
+        parseExcelFile(booksFile, undefined, 'Purchase Report', columnMappings.books),
+        gstr2bIsJson
+            ? parseGstr2bJsonFile(gstr2bFile, 'GSTR-2B Report')
+            : allSections
+                ? parseAllSections(gstr2bFile, 'GSTR-2B Report')
+                : parseExcelFile(gstr2bFile, gstr2bSheetName, 'GSTR-2B Report', columnMappings.gstr2b),
+        amendmentSheetName
+            ? parseOptionalSheet(gstr2bFile, amendmentSheetName, 'GSTR-2B Report', columnMappings.gstr2b)
+            : Promise.resolve([]),
     ]);
+    const gstr2bRecords = gstr2bIsJson
+        ? gstr2bSections.filter(row => INVOICE_SECTIONS.includes(String(row[SECTION_COLUMN]).toUpperCase()))
+        : gstr2bSections;
+    if (gstr2bRecords.length === 0) {
+        throw new Error(`The GSTR-2B JSON has no documents in the ${INVOICE_SECTIONS.join(', ')} sections.`);
+    }
+    // Amendments come from the amendment sections or sheets tagged on the records, or from the
+    // amendment sheet of the Excel download.
+    const rawGstr2bSheet = sectionTagged ? gstr2bRecords.filter(row => !isAmendment(row, SECTION_COLUMN)) : gstr2bRecords;
+    const rawAmendments = sectionTagged ? gstr2bRecords.filter(row => isAmendment(row, SECTION_COLUMN)) : excelAmendments;
 
     const bookHeaders = Object.keys(rawBooksSheet[0]);
-    const gstr2bHeaders = Object.keys(rawGstr2bSheet[0]);
+    const gstr2bHeaders = headersOf(gstr2bRecords);
+    const amendmentHeaders = headersOf(rawAmendments);
 
-    // Identify actual header names from aliases
-    const bookGstinH = findHeader(bookHeaders, COLUMN_ALIASES.gstin);
-    const bookBillNoH = findHeader(bookHeaders, COLUMN_ALIASES.billNo);
-    const bookLegalNameH = findHeader(bookHeaders, COLUMN_ALIASES.legalName);
-    const bookTaxableH = findHeader(bookHeaders, COLUMN_ALIASES.taxableValue);
-    const bookIgstH = findHeader(bookHeaders, COLUMN_ALIASES.integratedTax);
-    const bookCgstH = findHeader(bookHeaders, COLUMN_ALIASES.centralTax);
-    const bookSgstH = findHeader(bookHeaders, COLUMN_ALIASES.stateTax);
-    const bookCessH = findHeader(bookHeaders, COLUMN_ALIASES.cess);
+    // Identify actual header names from the column mappings, falling back to aliases
+    const gstr2bMapping = sectionTagged ? undefined : columnMappings.gstr2b;
+    const bookGstinH = resolveHeader(bookHeaders, 'gstin', columnMappings.books);
+    const bookBillNoH = resolveHeader(bookHeaders, 'billNo', columnMappings.books);
+    const bookLegalNameH = resolveHeader(bookHeaders, 'legalName', columnMappings.books);
+    const bookTaxableH = resolveHeader(bookHeaders, 'taxableValue', columnMappings.books);
+    const bookIgstH = resolveHeader(bookHeaders, 'integratedTax', columnMappings.books);
+    const bookCgstH = resolveHeader(bookHeaders, 'centralTax', columnMappings.books);
+    const bookSgstH = resolveHeader(bookHeaders, 'stateTax', columnMappings.books);
+    const bookCessH = resolveHeader(bookHeaders, 'cess', columnMappings.books);
+    const bookDateH = resolveHeader(bookHeaders, 'invoiceDate', columnMappings.books);
+    const bookPeriodH = resolveHeader(bookHeaders, 'returnPeriod', columnMappings.books);
+    const bookReverseChargeH = resolveHeader(bookHeaders, 'reverseCharge', columnMappings.books);
+    const bookDocumentTypeH = resolveHeader(bookHeaders, 'documentType', columnMappings.books);
+    const bookOriginalInvoiceH = resolveHeader(bookHeaders, 'originalInvoiceNumber', columnMappings.books);
+    const bookOriginalDateH = resolveHeader(bookHeaders, 'originalInvoiceDate', columnMappings.books);
+    const bookVoucherH = resolveHeader(bookHeaders, 'voucherNumber', columnMappings.books);
     
-    const gstrGstinH = findHeader(gstr2bHeaders, COLUMN_ALIASES.gstin);
-    const gstrBillNoH = findHeader(gstr2bHeaders, COLUMN_ALIASES.billNo);
-    const gstrLegalNameH = findHeader(gstr2bHeaders, COLUMN_ALIASES.legalName);
-    const gstrTaxableH = findHeader(gstr2bHeaders, COLUMN_ALIASES.taxableValue);
-    const gstrIgstH = findHeader(gstr2bHeaders, COLUMN_ALIASES.integratedTax);
-    const gstrCgstH = findHeader(gstr2bHeaders, COLUMN_ALIASES.centralTax);
-    const gstrSgstH = findHeader(gstr2bHeaders, COLUMN_ALIASES.stateTax);
-    const gstrCessH = findHeader(gstr2bHeaders, COLUMN_ALIASES.cess);
+    const gstrGstinH = resolveHeader(gstr2bHeaders, 'gstin', gstr2bMapping);
+    const gstrBillNoH = resolveHeader(gstr2bHeaders, 'billNo', gstr2bMapping);
+    const gstrLegalNameH = resolveHeader(gstr2bHeaders, 'legalName', gstr2bMapping);
+    const gstrTaxableH = resolveHeader(gstr2bHeaders, 'taxableValue', gstr2bMapping);
+    const gstrIgstH = resolveHeader(gstr2bHeaders, 'integratedTax', gstr2bMapping);
+    const gstrCgstH = resolveHeader(gstr2bHeaders, 'centralTax', gstr2bMapping);
+    const gstrSgstH = resolveHeader(gstr2bHeaders, 'stateTax', gstr2bMapping);
+    const gstrCessH = resolveHeader(gstr2bHeaders, 'cess', gstr2bMapping);
+    const gstrDateH = resolveHeader(gstr2bHeaders, 'invoiceDate', gstr2bMapping);
+    const gstrPeriodH = resolveHeader(gstr2bHeaders, 'returnPeriod', gstr2bMapping);
+    const gstrItcAvailabilityH = resolveHeader(gstr2bHeaders, 'itcAvailability', gstr2bMapping);
+    const gstrItcReasonH = resolveHeader(gstr2bHeaders, 'itcReason', gstr2bMapping);
+    const gstrReverseChargeH = resolveHeader(gstr2bHeaders, 'reverseCharge', gstr2bMapping);
+    const gstrDocumentTypeH = resolveHeader(gstr2bHeaders, 'documentType', gstr2bMapping);
+    const gstrOriginalInvoiceH = resolveHeader(gstr2bHeaders, 'originalInvoiceNumber', gstr2bMapping);
+    const gstrOriginalDateH = resolveHeader(gstr2bHeaders, 'originalInvoiceDate', gstr2bMapping);
 
     if (!bookGstinH || !bookBillNoH) throw new Error('Could not find required columns (GSTIN, Invoice Number) in the Purchase Report.');
     if (!gstrGstinH || !gstrBillNoH) throw new Error('Could not find required columns (GSTIN, Invoice Number) in the GSTR-2B Report.');
+
+    const columns: ReconciliationResult['columns'] = {
+        books: {
+            gstin: bookGstinH, billNo: bookBillNoH, legalName: bookLegalNameH, taxableValue: bookTaxableH,
+            integratedTax: bookIgstH, centralTax: bookCgstH, stateTax: bookSgstH, cess: bookCessH,
+            invoiceDate: bookDateH, returnPeriod: bookPeriodH, reverseCharge: bookReverseChargeH,
+            documentType: bookDocumentTypeH, originalInvoiceNumber: bookOriginalInvoiceH, originalInvoiceDate: bookOriginalDateH,
+            voucherNumber: bookVoucherH,
+        },
+        gstr2b: {
+            gstin: gstrGstinH, billNo: gstrBillNoH, legalName: gstrLegalNameH, taxableValue: gstrTaxableH,
+            integratedTax: gstrIgstH, centralTax: gstrCgstH, stateTax: gstrSgstH, cess: gstrCessH,
+            invoiceDate: gstrDateH, returnPeriod: gstrPeriodH,
+            itcAvailability: gstrItcAvailabilityH, itcReason: gstrItcReasonH, reverseCharge: gstrReverseChargeH,
+            documentType: gstrDocumentTypeH, originalInvoiceNumber: gstrOriginalInvoiceH, originalInvoiceDate: gstrOriginalDateH,
+        },
+    };
+    const source: ReconciliationSource = { gstr2bType, gstr2bIsJson };
+    const { periodTiming, compareAmounts, buildMatchedRecord } = createPairComparer(columns, options);
     
+    const bookNumericHeaders = [bookTaxableH, bookIgstH, bookCgstH, bookSgstH, bookCessH];
+    const gstrNumericHeaders = [gstrTaxableH, gstrIgstH, gstrCgstH, gstrSgstH, gstrCessH];
+
+    // --- Preflight ---
+    report('validating');
+    // Rows are checked as read, before note signs are normalized and amounts coerced, so the
+    // report shows what each sheet actually holds. Nothing is changed or left out here.
+    // Our own GSTIN comes from the options, or else from the GSTR-2B JSON.
+    const recipientGstin = options.recipientGstin.trim()
+        || String(gstr2bRecords.find(row => row[RECIPIENT_GSTIN_COLUMN])?.[RECIPIENT_GSTIN_COLUMN] ?? '');
+    const gstr2bChecks = {
+        keys: [gstrGstinH, gstrBillNoH], gstin: gstrGstinH, billNo: gstrBillNoH, taxableValue: gstrTaxableH,
+        integratedTax: gstrIgstH, centralTax: gstrCgstH, stateTax: gstrSgstH, cess: gstrCessH,
+    };
+    const preflight = [
+        ...checkRows(rawBooksSheet, {
+            keys: [bookGstinH, bookBillNoH], gstin: bookGstinH, billNo: bookBillNoH, taxableValue: bookTaxableH,
+            integratedTax: bookIgstH, centralTax: bookCgstH, stateTax: bookSgstH, cess: bookCessH,
+        }, { side: 'Books', recipientGstin }),
+        ...checkRows(rawGstr2bSheet, gstr2bChecks, { side: 'GSTR-2B', sheetName: gstr2bSheetName, recipientGstin }),
+        ...checkRows(rawAmendments, gstr2bChecks, { side: 'GSTR-2B', sheetName: amendmentSheetName, recipientGstin }),
+    ];
+
+    // --- Document Kinds ---
+    // The CDNR sheet reports credit notes with positive amounts and a note type, while purchase
+    // registers usually record them negative. Both sides are brought to negative credit notes
+    // and positive debit notes before any amounts are compared.
+    stampDocumentKind(rawBooksSheet, bookDocumentTypeH, bookTaxableH, bookNumericHeaders);
+    stampDocumentKind(rawGstr2bSheet, gstrDocumentTypeH, gstrTaxableH, gstrNumericHeaders, defaultGstr2bKind(source));
+    stampDocumentKind(rawAmendments, resolveHeader(amendmentHeaders, 'documentType', gstr2bMapping), gstrTaxableH, gstrNumericHeaders, defaultGstr2bKind(source));
+
+    // --- Amendments ---
+    // Revised values replace the originals before matching, so an amended invoice is not
+    // reported as a mismatch against its stale first version. The original document is named
+    // in the amendment's own columns, found through the aliases whatever the main sheet mapping.
+    const gstr2bLines = applyAmendments(rawGstr2bSheet, rawAmendments, {
+        gstin: gstrGstinH,
+        billNo: gstrBillNoH,
+        invoiceDate: gstrDateH,
+        originalBillNo: findHeader(amendmentHeaders, COLUMN_ALIASES.originalInvoiceNumber),
+        originalDate: findHeader(amendmentHeaders, COLUMN_ALIASES.originalInvoiceDate),
+        amounts: gstrNumericHeaders.filter((h): h is string => !!h),
+    });
+
     // Store original counts for the summary display before consolidation
     const originalTotalInBooks = rawBooksSheet.length;
-    const originalTotalInGstr2b = rawGstr2bSheet.length;
+    const originalTotalInGstr2b = gstr2bLines.length;
+
+    // --- Duplicate Detection ---
+    report('consolidating');
+    // Lines identical in every column and lines of one invoice under different dates or vouchers
+    // are reported as suspected duplicates with the lines as read. Identical lines can be genuine
+    // (two units of one item on separate lines), so they are only left out of consolidation when
+    // the options ask for it.
+    const bookDuplicates = findSuspectedDuplicates(rawBooksSheet, {
+        gstin: bookGstinH, billNo: bookBillNoH, kind: DOCUMENT_COLUMN, invoiceDate: bookDateH, voucherNumber: bookVoucherH,
+    }, 'Books', 'DB');
+    const gstr2bDuplicates = findSuspectedDuplicates(gstr2bLines, {
+        gstin: gstrGstinH, billNo: gstrBillNoH, kind: DOCUMENT_COLUMN, invoiceDate: gstrDateH,
+    }, 'GSTR-2B', 'DG');
 
     // --- Data Consolidation ---
     // Group multi-line invoices into a single entry by summing up numeric amounts.
     // This ensures a true one-to-one comparison between books and GSTR-2B.
-    const bookNumericHeaders = [bookTaxableH, bookIgstH, bookCgstH, bookSgstH, bookCessH];
-    const booksSheet = consolidateInvoices(rawBooksSheet, bookGstinH, bookBillNoH, bookLegalNameH, bookNumericHeaders);
+    // Can be switched off in the options when each row is already a whole invoice.
+    const withoutCopies = (lines: ReconciliationRecord[], copies: Set<ReconciliationRecord>) =>
+        options.excludeIdenticalCopies ? lines.filter(row => !copies.has(row)) : lines;
+    const booksSheet = consolidateInvoices(withoutCopies(rawBooksSheet, bookDuplicates.copies), bookGstinH, bookBillNoH, bookLegalNameH, bookNumericHeaders, bookDateH, options.consolidateInvoices);
 
-    const gstrNumericHeaders = [gstrTaxableH, gstrIgstH, gstrCgstH, gstrSgstH, gstrCessH];
-    const gstr2bSheet = consolidateInvoices(rawGstr2bSheet, gstrGstinH, gstrBillNoH, gstrLegalNameH, gstrNumericHeaders);
+    const gstr2bSheet = consolidateInvoices(withoutCopies(gstr2bLines, gstr2bDuplicates.copies), gstrGstinH, gstrBillNoH, gstrLegalNameH, gstrNumericHeaders, gstrDateH, options.consolidateInvoices);
+
+    // --- Period Detection ---
+    // Each record gets a 'YYYY-MM' period: the explicit return period column when there is one,
+    // otherwise the month of the invoice date. Used to flag timing differences between the sides.
+    stampPeriod(booksSheet, bookPeriodH, bookDateH);
+    stampPeriod(gstr2bSheet, gstrPeriodH, gstrDateH);
+
+    // --- Section Routing ---
+    // In an All sections run every record is reconciled within its section only; the section
+    // leads all matching keys below.
+    if (allSections) {
+        stampSection(booksSheet);
+        stampSection(gstr2bSheet);
+    }
+    const sectionOf = (row: ReconciliationRecord) => row[SECTION_TAG_COLUMN] ? `${row[SECTION_TAG_COLUMN]}|` : '';
+    const gstinOf = (row: ReconciliationRecord, gstinH: string) => `${sectionOf(row)}${String(row[gstinH] ?? '').replace(/\s/g, '').toUpperCase()}`;
 
     // --- Reconciliation Step 1: Exact Match ---
-    // Match based on a composite key of GSTIN and Invoice Number.
+    report('exact');
+    // Match based on a composite key of GSTIN and Invoice Number, plus the invoice date
+    // when both files carry one.
+    const useDateInKey = !!bookDateH && !!gstrDateH;
+    const exactKey = (row: ReconciliationRecord, gstinH: string, billNoH: string, dateH: string | undefined, withDate: boolean): string => {
+        const gstin = String(row[gstinH] ?? '');
+        const billNo = String(row[billNoH] ?? '');
+        const key = `${sectionOf(row)}${gstin}${billNo}`.replace(/\s/g, '').toUpperCase();
+        return withDate && dateH ? `${key}|${parseInvoiceDate(row[dateH]) ?? ''}` : key;
+    };
+
     const gstr2bMap = new Map<string, ReconciliationRecord>();
-    gstr2bSheet.forEach(row => {
-        const gstin = String(row[gstrGstinH!] ?? '');
-        const billNo = String(row[gstrBillNoH!] ?? '');
-        const key = `${gstin}${billNo}`.replace(/\s/g, '').toUpperCase();
-        if (key) gstr2bMap.set(key, row);
+    gstr2bSheet.forEach((row, index) => {
+        const key = exactKey(row, gstrGstinH, gstrBillNoH, gstrDateH, useDateInKey);
+        // Without consolidation the same key can repeat; keep the extra lines under a
+        // unique key so they fall through to the later passes instead of being lost.
+        if (key) gstr2bMap.set(gstr2bMap.has(key) ? `${key}#${index}` : key, row);
     });
     
     const matchedRecords: ReconciliationRecord[] = [];
+    const differentPeriodRecords: ReconciliationRecord[] = [];
+    const valueMismatchRecords: ReconciliationRecord[] = [];
+    const taxHeadMismatchRecords: ReconciliationRecord[] = [];
+    const cessMismatchRecords: ReconciliationRecord[] = [];
     const onlyInBooksInitial: ReconciliationRecord[] = [];
 
-    booksSheet.forEach(bookRow => {
-        const gstin = String(bookRow[bookGstinH!] ?? '');
-        const billNo = String(bookRow[bookBillNoH!] ?? '');
-        const key = `${gstin}${billNo}`.replace(/\s/g, '').toUpperCase();
+    // Pairs with the same key are classified by their amounts first. Pairs that agree are
+    // then split by timing: same period is 'Matched', otherwise the pair is a timing
+    // difference to be tracked across months.
+    const pushExactMatch = (bookRow: ReconciliationRecord, gstrRow: ReconciliationRecord, extra: ReconciliationRecord = {}) => {
+        const { reasonCode } = compareAmounts(bookRow, gstrRow);
+        if (reasonCode === 'TAX_HEAD_MISMATCH') {
+            taxHeadMismatchRecords.push(buildMatchedRecord(bookRow, gstrRow, 'Tax head mismatch (IGST vs CGST/SGST)', extra));
+        } else if (reasonCode === 'VALUE_MISMATCH') {
+            valueMismatchRecords.push(buildMatchedRecord(bookRow, gstrRow, 'Value mismatch', extra));
+        } else if (reasonCode === 'CESS_MISMATCH') {
+            cessMismatchRecords.push(buildMatchedRecord(bookRow, gstrRow, 'Cess mismatch', extra));
+        } else if (periodTiming(bookRow, gstrRow)) {
+            differentPeriodRecords.push(buildMatchedRecord(bookRow, gstrRow, 'Matched – different period', extra));
+        } else {
+            matchedRecords.push(buildMatchedRecord(bookRow, gstrRow, 'Matched', extra));
+        }
+    };
+
+    const unmatchedByDate: ReconciliationRecord[] = [];
+    booksSheet.forEach((bookRow, index) => {
+        reportRow('exact', index, booksSheet.length);
+        const key = exactKey(bookRow, bookGstinH, bookBillNoH, bookDateH, useDateInKey);
         const gstrRow = gstr2bMap.get(key);
 
         if (gstrRow) {
-            const bookTaxable = getColumnData(bookRow, bookTaxableH);
-            const gstrTaxable = getColumnData(gstrRow, gstrTaxableH);
-            const diffTaxable = bookTaxable - gstrTaxable;
+            pushExactMatch(bookRow, gstrRow);
+            gstr2bMap.delete(key);
+        } else {
+            unmatchedByDate.push(bookRow);
+        }
+    });
 
-            const bookIgst = getColumnData(bookRow, bookIgstH);
-            const gstrIgst = getColumnData(gstrRow, gstrIgstH);
-            const diffIgst = bookIgst - gstrIgst;
+    if (useDateInKey) {
+        // Same GSTIN and invoice number but a different date (e.g. the books carry the
+        // booking date). Accept the pair only when the number is unique on the GSTR-2B side.
+        const byNumber = new Map<string, string[]>();
+        gstr2bMap.forEach((row, key) => {
+            const numberKey = exactKey(row, gstrGstinH, gstrBillNoH, gstrDateH, false);
+            addToIndex(byNumber, numberKey, key);
+        });
+        unmatchedByDate.forEach(bookRow => {
+            const keys = byNumber.get(exactKey(bookRow, bookGstinH, bookBillNoH, bookDateH, false));
+            if (keys && keys.length === 1 && gstr2bMap.has(keys[0])) {
+                pushExactMatch(bookRow, gstr2bMap.get(keys[0])!, { 'Date Check': 'Invoice date differs' });
+                gstr2bMap.delete(keys[0]);
+            } else {
+                onlyInBooksInitial.push(bookRow);
+            }
+        });
+    } else {
+        onlyInBooksInitial.push(...unmatchedByDate);
+    }
 
-            const bookCgst = getColumnData(bookRow, bookCgstH);
-            const gstrCgst = getColumnData(gstrRow, gstrCgstH);
-            const diffCgst = bookCgst - gstrCgst;
+    // --- Reconciliation Step 1b: Normalized Invoice Number Match ---
+    report('normalized');
+    // Retry the leftovers with progressively more aggressive invoice number normalization
+    // (separators, leading zeros, financial-year suffixes, common prefixes). A pair is only
+    // accepted when the normalized key is unambiguous on both sides.
+    const normalizedMatchedRecords: ReconciliationRecord[] = [];
+    let unmatchedBooks = onlyInBooksInitial;
 
-            const bookSgst = getColumnData(bookRow, bookSgstH);
-            const gstrSgst = getColumnData(gstrRow, gstrSgstH);
-            const diffSgst = bookSgst - gstrSgst;
+    NORMALIZATION_LEVELS.forEach(({ rule, normalize }, level) => {
+        report('normalized', level, NORMALIZATION_LEVELS.length);
+        // A number made only of separators normalizes to nothing and is not matched on it.
+        const normalizedKey = (row: ReconciliationRecord, gstinH: string, billNoH: string) => {
+            const billNo = normalize(String(row[billNoH] ?? ''));
+            return billNo ? `${gstinOf(row, gstinH)}|${billNo}` : null;
+        };
+        const candidates = new Map<string, string[]>();
+        gstr2bMap.forEach((row, exactKey) => {
+            const key = normalizedKey(row, gstrGstinH, gstrBillNoH!);
+            if (key) addToIndex(candidates, key, exactKey);
+        });
 
-            const bookCess = getColumnData(bookRow, bookCessH);
-            const gstrCess = getColumnData(gstrRow, gstrCessH);
-            const diffCess = bookCess - gstrCess;
+        const booksByKey = new Map<string, ReconciliationRecord[]>();
+        unmatchedBooks.forEach(bookRow => {
+            const key = normalizedKey(bookRow, bookGstinH, bookBillNoH!);
+            if (key) addToIndex(booksByKey, key, bookRow);
+        });
 
-            const gstrRenamed = Object.fromEntries(
-                Object.entries(gstrRow).map(([k, v]) => [`GSTR2B_${k}`, v])
-            );
+        const stillUnmatched: ReconciliationRecord[] = [];
+        unmatchedBooks.forEach(bookRow => {
+            const key = normalizedKey(bookRow, bookGstinH, bookBillNoH!);
+            const exactKeys = key ? candidates.get(key) : undefined;
 
-            matchedRecords.push({
-                ...bookRow,
-                'Recon Status': 'Matched',
-                'Diff Taxable Value (₹)': Math.abs(diffTaxable) <= 2 ? '0.00' : diffTaxable.toFixed(2),
-                'Diff Integrated Tax(₹)': Math.abs(diffIgst) <= 2 ? '0.00' : diffIgst.toFixed(2),
-                'Diff Central Tax(₹)': Math.abs(diffCgst) <= 2 ? '0.00' : diffCgst.toFixed(2),
-                'Diff State/UT Tax(₹)': Math.abs(diffSgst) <= 2 ? '0.00' : diffSgst.toFixed(2),
-                'Diff Cess(₹)': Math.abs(diffCess) <= 2 ? '0.00' : diffCess.toFixed(2),
-                ...gstrRenamed,
-            });
-            gstr2bMap.delete(key);
-        } else {
-            onlyInBooksInitial.push(bookRow);
-        }
+            if (key && booksByKey.get(key)!.length === 1 && exactKeys && exactKeys.length === 1 && gstr2bMap.has(exactKeys[0])) {
+                const gstrRow = gstr2bMap.get(exactKeys[0])!;
+                normalizedMatchedRecords.push(buildMatchedRecord(bookRow, gstrRow, 'Matched (Normalized Invoice No.)', { 'Match Rule': rule }));
+                gstr2bMap.delete(exactKeys[0]);
+            } else {
+                stillUnmatched.push(bookRow);
+            }
+        });
+        unmatchedBooks = stillUnmatched;
     });
 
     // --- Reconciliation Step 2: Partial Match ---
     // For records not matched exactly, try matching on GSTIN, Legal Name, and a tolerant Taxable Value.
+    // Leftover GSTR-2B rows are indexed by GSTIN so each book row only scans its own supplier.
+    report('partial');
     const partiallyMatchedRecords: ReconciliationRecord[] = [];
-    const finalOnlyInBooks: ReconciliationRecord[] = [];
+    const unmatchedAfterPartial: ReconciliationRecord[] = [];
+
     const gstr2bPool = Array.from(gstr2bMap.values());
+    const poolByGstin = new Map<string, ReconciliationRecord[]>();
+    gstr2bPool.forEach(row => {
+        const gstin = gstinOf(row, gstrGstinH);
+        addToIndex(poolByGstin, gstin, row);
+    });
+    const consumed = new Set<ReconciliationRecord>();
 
-    onlyInBooksInitial.forEach(bookRow => {
-        const bookGstin = String(bookRow[bookGstinH!] ?? '').replace(/\s/g, '').toUpperCase();
+    unmatchedBooks.forEach((bookRow, index) => {
+        reportRow('partial', index, unmatchedBooks.length);
         const bookLegalName = bookLegalNameH ? String(bookRow[bookLegalNameH] ?? '').trim().toLowerCase() : null;
         const bookTaxable = getColumnData(bookRow, bookTaxableH);
+        const candidates = poolByGstin.get(gstinOf(bookRow, bookGstinH)) || [];
 
-        let matchIndex = -1;
-        for (let i = 0; i < gstr2bPool.length; i++) {
-            const gstrRow = gstr2bPool[i];
-            const gstrGstin = String(gstrRow[gstrGstinH!] ?? '').replace(/\s/g, '').toUpperCase();
-            if (bookGstin !== gstrGstin) continue;
+        const gstrRow = candidates.find(candidate => {
+            if (consumed.has(candidate)) return false;
 
-            const gstrLegalName = gstrLegalNameH ? String(gstrRow[gstrLegalNameH] ?? '').trim().toLowerCase() : null;
-            const legalNameIsMatch = (bookLegalName === null || gstrLegalName === null) || bookLegalName === gstrLegalName;
-            if (!legalNameIsMatch) continue;
+            const gstrLegalName = gstrLegalNameH ? String(candidate[gstrLegalNameH] ?? '').trim().toLowerCase() : null;
+            const legalNameIsMatch = !options.requireLegalNameMatch
+                || (bookLegalName === null || gstrLegalName === null) || bookLegalName === gstrLegalName;
+            if (!legalNameIsMatch) return false;
 
-            const gstrTaxable = getColumnData(gstrRow, gstrTaxableH);
-            if (Math.abs(bookTaxable - gstrTaxable) <= 2) {
-                matchIndex = i;
-                break;
-            }
-        }
+            const gstrTaxable = getColumnData(candidate, gstrTaxableH);
+            return isWithinTolerance(bookTaxable - gstrTaxable, bookTaxable, tolerance.taxableValue, percentageTolerance);
+        });
 
-        if (matchIndex !== -1) {
-            const gstrRow = gstr2bPool[matchIndex];
-            const gstrRenamed = Object.fromEntries(Object.entries(gstrRow).map(([k, v]) => [`GSTR2B_${k}`, v]));
-            partiallyMatchedRecords.push({ ...bookRow, ...gstrRenamed, 'Recon Status': 'Partially Matched' });
-            gstr2bPool.splice(matchIndex, 1);
+        if (gstrRow) {
+            partiallyMatchedRecords.push(buildMatchedRecord(bookRow, gstrRow, 'Partially Matched'));
+            consumed.add(gstrRow);
         } else {
-            finalOnlyInBooks.push({ ...bookRow, 'Recon Status': 'Only in Books' });
+            unmatchedAfterPartial.push(bookRow);
         }
     });
 
-    const finalOnlyInGstr2b = gstr2bPool.map(row => ({ ...row, 'Recon Status': 'Only in GSTR-2B' }));
+    // --- Reconciliation Step 3: Group Match ---
+    // Per GSTIN, look for several leftover book rows that together equal one GSTR-2B row
+    // (an invoice split across entries in the books), and the reverse. Every member row of a
+    // group is reported with a shared Group ID so the links survive into the export.
+    report('grouping');
+    const groupMatchedRecords: ReconciliationRecord[] = [];
+    const groupedBooks = new Set<ReconciliationRecord>();
+    const groupedGstr2b = new Set<ReconciliationRecord>();
+    let groupCount = 0;
+
+    const bookAmounts = (row: ReconciliationRecord) => [bookTaxableH, bookIgstH, bookCgstH, bookSgstH, bookCessH].map(h => getColumnData(row, h));
+    const gstrAmounts = (row: ReconciliationRecord) => [gstrTaxableH, gstrIgstH, gstrCgstH, gstrSgstH, gstrCessH].map(h => getColumnData(row, h));
+    const headTolerances = [tolerance.taxableValue, tolerance.integratedTax, tolerance.centralTax, tolerance.stateTax, tolerance.cess];
+    const agrees = (sum: number[], target: number[]) =>
+        sum.every((value, i) => isWithinTolerance(value - target[i], target[i], headTolerances[i], percentageTolerance));
+
+    // The amounts of several rows summed under the headers of their side, to compare a group as a whole.
+    const totalRow = (rows: ReconciliationRecord[], headers: (string | undefined)[]): ReconciliationRecord =>
+        Object.fromEntries(headers.filter((h): h is string => !!h).map(h => [h, rows.reduce((sum, row) => sum + getColumnData(row, h), 0)]));
+
+    const pushGroup = (bookRows: ReconciliationRecord[], gstrRows: ReconciliationRecord[], groupType: string) => {
+        groupCount++;
+        const groupId = `G${groupCount}`;
+        const bookNumbers = bookRows.map(r => r[bookBillNoH]).join(', ');
+        const gstrNumbers = gstrRows.map(r => r[gstrBillNoH]).join(', ');
+        // The group is compared on its totals; every row carries the reason code and differences of the whole group.
+        const { reasonCode, diffColumns } = compareAmounts(totalRow(bookRows, bookNumericHeaders), totalRow(gstrRows, gstrNumericHeaders));
+        // One row per pairing of the single side with each member, in the usual paired layout.
+        bookRows.forEach(bookRow => gstrRows.forEach(gstrRow => {
+            groupMatchedRecords.push({
+                ...bookRow,
+                'Recon Status': 'Group Matched',
+                'Reason Code': reasonCode,
+                ...diffColumns,
+                'Group ID': groupId,
+                'Group Type': groupType,
+                'Group Books Invoices': bookNumbers,
+                'Group GSTR-2B Invoices': gstrNumbers,
+                ...Object.fromEntries(Object.entries(gstrRow).map(([k, v]) => [`${GSTR2B_PREFIX}${k}`, v])),
+            });
+        }));
+        bookRows.forEach(r => groupedBooks.add(r));
+        gstrRows.forEach(r => groupedGstr2b.add(r));
+    };
+
+    const booksByGstin = new Map<string, ReconciliationRecord[]>();
+    unmatchedAfterPartial.forEach(row => {
+        const gstin = gstinOf(row, bookGstinH);
+        addToIndex(booksByGstin, gstin, row);
+    });
+    let gstinIndex = 0;
+    booksByGstin.forEach((bookRows, gstin) => {
+        reportRow('grouping', gstinIndex++, booksByGstin.size);
+        const books = () => bookRows.filter(r => !groupedBooks.has(r));
+        const gstrs = () => (poolByGstin.get(gstin) || []).filter(r => !consumed.has(r) && !groupedGstr2b.has(r));
+
+        findGroupMatches({ targets: gstrs(), candidates: books(), targetAmounts: gstrAmounts, candidateAmounts: bookAmounts, agrees })
+            .forEach(({ target, members }) => pushGroup(members, [target], 'Many books → one GSTR-2B'));
+        findGroupMatches({ targets: books(), candidates: gstrs(), targetAmounts: bookAmounts, candidateAmounts: gstrAmounts, agrees })
+            .forEach(({ target, members }) => pushGroup([target], members, 'One book → many GSTR-2B'));
+    });
+
+    const finalOnlyInBooks = unmatchedAfterPartial
+        .filter(row => !groupedBooks.has(row))
+        .map(row => ({ ...row, 'Recon Status': 'Only in Books', 'Reason Code': 'ONLY_IN_BOOKS' }));
+    const finalOnlyInGstr2b = gstr2bPool.filter(row => !consumed.has(row) && !groupedGstr2b.has(row)).map(row => ({ ...row, 'Recon Status': 'Only in GSTR-2B', 'Reason Code': 'ONLY_IN_GSTR2B' }));
+    suggestGstins(finalOnlyInBooks, finalOnlyInGstr2b, gstr2bSheet, columns);
 
     // --- Final Reporting ---
-    const bookTaxableHeader = bookTaxableH;
-    const invoicesInBookNotInGstr2b = finalOnlyInBooks.filter(row => getColumnData(row, bookTaxableHeader) >= 0);
-    const creditNotesInBookNotInGstr2b = finalOnlyInBooks.filter(row => getColumnData(row, bookTaxableHeader) < 0);
+    report('reporting');
+    const categories: ResultCategories = {
+        ...categorizeUnmatched(finalOnlyInBooks, finalOnlyInGstr2b, columns, source),
+        matchedRecords,
+        differentPeriodRecords,
+        valueMismatchRecords,
+        taxHeadMismatchRecords,
+        cessMismatchRecords,
+        normalizedMatchedRecords,
+        partiallyMatchedRecords,
+        groupMatchedRecords,
+        suspectedDuplicateRecords: [...bookDuplicates.records, ...gstr2bDuplicates.records],
+    };
+    // Every record of the run is a fresh object here, so the ITC columns are added in place.
+    // Suspected duplicates are source lines repeated for review and carry no ITC of their own.
+    [...PAIRED_CATEGORIES, ...ONLY_IN_BOOKS_CATEGORIES, ...ONLY_IN_GSTR2B_CATEGORIES]
+        .forEach(key => categories[key].forEach(record => stampItc(record, columns)));
+    const { summary, finalReport } = summarizeResult(categories, {
+        totalInBooks: originalTotalInBooks,
+        totalInGstr2b: originalTotalInGstr2b,
+    }, columns);
 
-    const gstrTaxableHeader = gstrTaxableH;
-    let invoicesInGstr2bNotInBook: ReconciliationRecord[] = [];
-    let creditNotesInGstr2bNotInBook: ReconciliationRecord[] = [];
-    
-    if (gstr2bType === 'B2B') {
-        invoicesInGstr2bNotInBook = finalOnlyInGstr2b;
-    } else if (gstr2bType === 'CDNR') {
-        creditNotesInGstr2bNotInBook = finalOnlyInGstr2b;
-    } else { // 'Other'
-        invoicesInGstr2bNotInBook = finalOnlyInGstr2b.filter(row => getColumnData(row, gstrTaxableHeader) >= 0);
-        creditNotesInGstr2bNotInBook = finalOnlyInGstr2b.filter(row => getColumnData(row, gstrTaxableHeader) < 0);
+    report('reporting', 1, 1);
+
+    return {
+        summary,
+        ...categories,
+        finalReport,
+        options,
+        columns,
+        source,
+        overrides: [],
+        preflight,
+    };
+};
+
+// --- Import Reconciliation ---
+
+// GSTR-2B sections and Excel sheets holding bills of entry.
+const IMPORT_SHEETS = ['IMPG', 'IMPGSEZ'];
+
+/**
+ * Reads the bills of entry of a GSTR-2B file: the IMPG and IMPGSEZ sections of the portal JSON,
+ * or the IMPG and IMPGSEZ sheets of the Excel download, each record tagged with its section.
+ */
+const parseBillsOfEntry = async (file: File, fileNameForError: string, mapping?: ColumnMapping): Promise<ReconciliationRecord[]> => {
+    if (isJsonFile(file)) {
+        const records = await parseGstr2bJsonFile(file, fileNameForError);
+        return records.filter(row => IMPORT_SHEETS.includes(String(row[SECTION_COLUMN] ?? '').toUpperCase()));
+    }
+    const sheets = await Promise.all(IMPORT_SHEETS.map(sheetName => parseOptionalSheet(file, sheetName, fileNameForError, mapping, IMPORT_KEY_FIELDS)));
+    return sheets.flatMap((records, index) => records.map(row => ({ ...row, [SECTION_COLUMN]: IMPORT_SHEETS[index] })));
+};
+
+/**
+ * Reconciles the bills of entry in the books against the IMPG and IMPGSEZ sections of GSTR-2B.
+ * Imports carry no supplier GSTIN, so a bill of entry is keyed by its number and, when both sides
+ * have those columns, its date and port code. Only IGST and cess are levied on
+ * imports, so a pair is compared on those two heads alone. The results fill the import
+ * categories; the invoice categories stay empty.
+ */
+const reconcileImports = async (
+    booksFile: File,
+    gstr2bFile: File,
+    options: ReconciliationOptions,
+    columnMappings: ColumnMappings,
+    onProgress: (progress: ReconciliationProgress) => void
+): Promise<ReconciliationResult> => {
+    const { tolerance, percentageTolerance } = options;
+    const { report, reportRow } = createProgressReporter(onProgress);
+    report('parsing');
+
+    const gstr2bIsJson = isJsonFile(gstr2bFile);
+    const [rawBooksSheet, rawGstr2bSheet] = await Promise.all([
+        parseExcelFile(booksFile, undefined, 'Purchase Report', columnMappings.books, IMPORT_KEY_FIELDS),
+        parseBillsOfEntry(gstr2bFile, 'GSTR-2B Report', columnMappings.gstr2b),
+    ]);
+    if (rawGstr2bSheet.length === 0) {
+        throw new Error('Could not find any bills of entry (IMPG or IMPGSEZ) in the GSTR-2B Report.');
     }
 
-    const uncleanedFinalReport = [...matchedRecords, ...partiallyMatchedRecords, ...finalOnlyInBooks, ...finalOnlyInGstr2b];
+    const bookHeaders = Object.keys(rawBooksSheet[0]);
+    const gstr2bHeaders = Object.keys(rawGstr2bSheet[0]);
+    const gstr2bMapping = gstr2bIsJson ? BILL_OF_ENTRY_MAPPING : columnMappings.gstr2b;
+    const resolveBoth = (field: ColumnField) => ({
+        books: resolveHeader(bookHeaders, field, columnMappings.books),
+        gstr2b: resolveHeader(gstr2bHeaders, field, gstr2bMapping),
+    });
+    const fields: ColumnField[] = ['portCode', 'billOfEntryNumber', 'billOfEntryDate', 'taxableValue', 'integratedTax', 'cess', 'returnPeriod', 'itcAvailability', 'itcReason'];
+    const resolved = Object.fromEntries(fields.map(field => [field, resolveBoth(field)])) as Record<ColumnField, { books?: string; gstr2b?: string }>;
+    const side = (key: 'books' | 'gstr2b'): ColumnMapping => Object.fromEntries(fields.map(field => [field, resolved[field][key]]));
+
+    const columns: ReconciliationResult['columns'] = { books: side('books'), gstr2b: side('gstr2b') };
+    const { books, gstr2b } = columns;
+    if (!books.billOfEntryNumber) throw new Error('Could not find the required Bill of Entry Number column in the Purchase Report.');
+    if (!gstr2b.billOfEntryNumber) throw new Error('Could not find the required Bill of Entry Number column in the GSTR-2B Report.');
+    const source: ReconciliationSource = { gstr2bType: 'IMPG', gstr2bIsJson };
 
-    // Remove detailed tax difference columns from the final combined report for simplicity, as requested.
-    const columnsToRemove = [
-        'Diff Integrated Tax(₹)',
-        'Diff Central Tax(₹)',
-        'Diff State/UT Tax(₹)',
-        'Diff Cess(₹)',
+    // --- Preflight ---
+    report('validating');
+    const importChecks = (mapping: ColumnMapping) => ({
+        keys: [mapping.billOfEntryNumber!], billNo: mapping.billOfEntryNumber,
+        taxableValue: mapping.taxableValue, integratedTax: mapping.integratedTax, cess: mapping.cess, checkTaxRate: false,
+    });
+    const preflight = [
+        ...checkRows(rawBooksSheet, importChecks(books), { side: 'Books' }),
+        ...checkRows(rawGstr2bSheet, importChecks(gstr2b), { side: 'GSTR-2B' }),
     ];
 
-    const finalReport = uncleanedFinalReport.map(record => {
-        const newRecord = { ...record };
-        columnsToRemove.forEach(col => {
-            delete newRecord[col];
-        });
-        return newRecord;
+    // --- Data Consolidation ---
+    // A bill of entry split over several lines is summed like a multi-line invoice, with the
+    // port code standing in for the GSTIN. Rows with a blank port are consolidated by their
+    // number alone rather than dropped.
+    report('consolidating');
+    const consolidateBillsOfEntry = (rows: ReconciliationRecord[], mapping: ColumnMapping, numericHeaders: (string | undefined)[]) => {
+        const hasPort = (row: ReconciliationRecord) => !!mapping.portCode && String(row[mapping.portCode] ?? '').trim() !== '';
+        return [
+            ...consolidateInvoices(rows.filter(hasPort), mapping.portCode!, mapping.billOfEntryNumber!, undefined, numericHeaders, mapping.billOfEntryDate, options.consolidateInvoices),
+            ...consolidateInvoices(rows.filter(row => !hasPort(row)), mapping.billOfEntryNumber!, mapping.billOfEntryNumber!, undefined, numericHeaders, mapping.billOfEntryDate, options.consolidateInvoices),
+        ];
+    };
+    const booksSheet = consolidateBillsOfEntry(rawBooksSheet, books, [books.taxableValue, books.integratedTax, books.cess]);
+    const gstr2bSheet = consolidateBillsOfEntry(rawGstr2bSheet, gstr2b, [gstr2b.taxableValue, gstr2b.integratedTax, gstr2b.cess]);
+    stampPeriod(booksSheet, books.returnPeriod, books.billOfEntryDate);
+    stampPeriod(gstr2bSheet, gstr2b.returnPeriod, gstr2b.billOfEntryDate);
+
+    // --- Matching ---
+    // Bills of entry are keyed by number and, when both files carry the column, date; numbers
+    // are compared without spaces and leading zeros. Port codes must agree when both files
+    // carry them, except that a row with a blank port matches on number and date alone.
+    report('exact');
+    const usePort = !!books.portCode && !!gstr2b.portCode;
+    const useDateInKey = !!books.billOfEntryDate && !!gstr2b.billOfEntryDate;
+    const billOfEntryKey = (row: ReconciliationRecord, mapping: ColumnMapping) => [
+        String(row[mapping.billOfEntryNumber!] ?? '').replace(/\s/g, '').toUpperCase().replace(/^0+(?=.)/, ''),
+        useDateInKey ? parseInvoiceDate(row[mapping.billOfEntryDate!]) ?? '' : '',
+    ].join('|');
+    const portOf = (row: ReconciliationRecord, mapping: ColumnMapping) =>
+        usePort ? String(row[mapping.portCode!] ?? '').replace(/\s/g, '').toUpperCase() : '';
+
+    const gstr2bMap = new Map<string, ReconciliationRecord[]>();
+    gstr2bSheet.forEach(row => addToIndex(gstr2bMap, billOfEntryKey(row, gstr2b), row));
+    const consumed = new Set<ReconciliationRecord>();
+    const findGstr2bRow = (bookRow: ReconciliationRecord) => {
+        const port = portOf(bookRow, books);
+        const candidates = (gstr2bMap.get(billOfEntryKey(bookRow, books)) ?? []).filter(row => !consumed.has(row));
+        return candidates.find(row => portOf(row, gstr2b) === port)
+            ?? candidates.find(row => !port || !portOf(row, gstr2b));
+    };
+
+    const diffOf = (bookRow: ReconciliationRecord, gstrRow: ReconciliationRecord, bookH: string | undefined, gstrH: string | undefined, headTolerance: number) => {
+        const book = getColumnData(bookRow, bookH);
+        const diff = book - getColumnData(gstrRow, gstrH);
+        return isWithinTolerance(diff, book, headTolerance, percentageTolerance) ? 0 : diff;
+    };
+
+    const importMatchedRecords: ReconciliationRecord[] = [];
+    const importMismatchRecords: ReconciliationRecord[] = [];
+    const importsInBookNotInGstr2b: ReconciliationRecord[] = [];
+    booksSheet.forEach((bookRow, index) => {
+        reportRow('exact', index, booksSheet.length);
+        const gstrRow = findGstr2bRow(bookRow);
+        if (!gstrRow) {
+            importsInBookNotInGstr2b.push({ ...bookRow, 'Recon Status': 'Only in Books', 'Reason Code': 'ONLY_IN_BOOKS' });
+            return;
+        }
+        consumed.add(gstrRow);
+        const igstDiff = diffOf(bookRow, gstrRow, books.integratedTax, gstr2b.integratedTax, tolerance.integratedTax);
+        const cessDiff = diffOf(bookRow, gstrRow, books.cess, gstr2b.cess, tolerance.cess);
+        const reasonCode: ReasonCode = igstDiff !== 0 ? 'VALUE_MISMATCH' : cessDiff !== 0 ? 'CESS_MISMATCH' : 'MATCHED';
+        const record: ReconciliationRecord = {
+            ...bookRow,
+            'Recon Status': reasonCode === 'VALUE_MISMATCH' ? 'Value mismatch' : reasonCode === 'CESS_MISMATCH' ? 'Cess mismatch' : 'Matched',
+            'Reason Code': reasonCode,
+            'Diff Integrated Tax(₹)': igstDiff.toFixed(2),
+            'Diff Cess(₹)': cessDiff.toFixed(2),
+            ...Object.fromEntries(Object.entries(gstrRow).map(([k, v]) => [`${GSTR2B_PREFIX}${k}`, v])),
+        };
+        (reasonCode === 'MATCHED' ? importMatchedRecords : importMismatchRecords).push(record);
     });
+    const importsInGstr2bNotInBook = gstr2bSheet.filter(row => !consumed.has(row))
+        .map(row => ({ ...row, 'Recon Status': 'Only in GSTR-2B', 'Reason Code': 'ONLY_IN_GSTR2B' }));
 
+    // --- Final Reporting ---
+    report('reporting');
+    const categories: ResultCategories = {
+        ...emptyCategories(),
+        importMatchedRecords,
+        importMismatchRecords,
+        importsInBookNotInGstr2b,
+        importsInGstr2bNotInBook,
+    };
+    Object.values(categories).forEach(records => records.forEach(record => stampItc(record, columns)));
+    const { summary, finalReport } = summarizeResult(categories, {
+        totalInBooks: rawBooksSheet.length,
+        totalInGstr2b: rawGstr2bSheet.length,
+    }, columns);
+
+    report('reporting', 1, 1);
 
     return {
-        summary: {
-            totalInBooks: originalTotalInBooks,
-            totalInGstr2b: originalTotalInGstr2b,
-            matched: matchedRecords.length,
-            partiallyMatched: partiallyMatchedRecords.length,
-            onlyInBooks: finalOnlyInBooks.length,
-            onlyInGstr2b: finalOnlyInGstr2b.length,
-        },
-        matchedRecords,
-        partiallyMatchedRecords,
-        invoicesInBookNotInGstr2b,
-        creditNotesInBookNotInGstr2b,
-        invoicesInGstr2bNotInBook,
-        creditNotesInGstr2bNotInBook,
+        summary,
+        ...categories,
         finalReport,
+        options,
+        columns,
+        source,
+        overrides: [],
+        preflight,
     };
 };
 
-export const exportToExcel = (data: ReconciliationRecord[], fileName: string) => {
+/** Exports one category; the manual override log, when there is one, goes in a second sheet. */
+export const exportToExcel = (data: ReconciliationRecord[], fileName: string, overrideLog: ReconciliationRecord[] = []) => {
     try {
         if (data.length === 0) {
             alert("No data to export for this category.");
@@ -390,6 +1630,9 @@ export const exportToExcel = (data: ReconciliationRecord[], fileName: string) =>
         const worksheet = XLSX.utils.json_to_sheet(data);
         const workbook = XLSX.utils.book_new();
         XLSX.utils.book_append_sheet(workbook, worksheet, 'Reconciliation');
+        if (overrideLog.length > 0) {
+            XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(overrideLog), 'Override Log');
+        }
         XLSX.writeFile(workbook, `${fileName}.xlsx`);
     } catch (error) {
         console.error("Error exporting to Excel:", error);
@@ -0,0 +1,18 @@
+import { reconcileData } from './reconciliationService';
+import { ReconciliationWorkerRequest, ReconciliationWorkerMessage } from '../types';
+
+// Runs parsing and matching off the main thread so large registers do not freeze the page.
+const ctx = self as unknown as Worker;
+
+const post = (message: ReconciliationWorkerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = async (e: MessageEvent<ReconciliationWorkerRequest>) => {
+    const { booksFile, gstr2bFile, gstr2bType, options, columnMappings } = e.data;
+    try {
+        const result = await reconcileData(booksFile, gstr2bFile, gstr2bType, options, columnMappings,
+            progress => post({ type: 'progress', progress }));
+        post({ type: 'result', result });
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : 'An unknown error occurred during reconciliation.' });
+    }
+};
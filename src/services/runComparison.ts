@@ -0,0 +1,87 @@
+import { ReconciliationResult, ReconciliationRecord, RunMovement } from '../types';
+import { GSTR2B_PREFIX } from './reconciliationService';
+import { RESULT_CATEGORIES } from './workbookExport';
+
+// --- Configuration ---
+
+export const NOT_IN_RUN = 'Not in run';
+
+// --- Helper Functions ---
+
+const normalize = (value: any): string => String(value ?? '').replace(/\s/g, '').toUpperCase();
+
+interface InvoiceLocation {
+    side: RunMovement['side'];
+    gstin: string;
+    invoiceNumber: string;
+    category: string;
+}
+
+/**
+ * Indexes every invoice of a run by side, GSTIN and invoice number, with the category it
+ * ended up in. A paired record places both its book invoice and its GSTR-2B invoice.
+ */
+const locateInvoices = (result: ReconciliationResult): Map<string, InvoiceLocation> => {
+    // Import runs key bills of entry on port code and number instead of GSTIN and invoice number.
+    const { books: bookColumns, gstr2b: gstr2bColumns } = result.columns;
+    const books = { gstin: bookColumns.gstin ?? bookColumns.portCode, billNo: bookColumns.billNo ?? bookColumns.billOfEntryNumber };
+    const gstr2b = { gstin: gstr2bColumns.gstin ?? gstr2bColumns.portCode, billNo: gstr2bColumns.billNo ?? gstr2bColumns.billOfEntryNumber };
+    const index = new Map<string, InvoiceLocation>();
+
+    const place = (side: RunMovement['side'], gstin: any, invoiceNumber: any, category: string) => {
+        if (!normalize(gstin) && !normalize(invoiceNumber)) return;
+        const key = `${side}|${normalize(gstin)}|${normalize(invoiceNumber)}`;
+        if (!index.has(key)) index.set(key, { side, gstin: String(gstin ?? ''), invoiceNumber: String(invoiceNumber ?? ''), category });
+    };
+
+    // Suspected duplicates repeat lines of invoices that are placed in another category.
+    RESULT_CATEGORIES.filter(c => c.key !== 'finalReport' && c.key !== 'suspectedDuplicateRecords').forEach(({ key, label }) => {
+        result[key].forEach((record: ReconciliationRecord) => {
+            if (record['Reason Code'] === 'ONLY_IN_GSTR2B') {
+                place('GSTR-2B', record[gstr2b.gstin ?? ''], record[gstr2b.billNo ?? ''], label);
+                return;
+            }
+            place('Books', record[books.gstin ?? ''], record[books.billNo ?? ''], label);
+            if (record['Reason Code'] !== 'ONLY_IN_BOOKS') {
+                place('GSTR-2B', record[`${GSTR2B_PREFIX}${gstr2b.gstin}`], record[`${GSTR2B_PREFIX}${gstr2b.billNo}`], label);
+            }
+        });
+    });
+    return index;
+};
+
+// --- Public API ---
+
+/**
+ * Lists the invoices whose category changed from one run to the next, for instance a book
+ * invoice that was 'Only in Books' last month and is 'Matched' now because the supplier
+ * filed late. Invoices that appear in only one of the runs are reported against NOT_IN_RUN.
+ */
+export const compareRuns = (previous: ReconciliationResult, current: ReconciliationResult): RunMovement[] => {
+    const before = locateInvoices(previous);
+    const after = locateInvoices(current);
+    const movements: RunMovement[] = [];
+
+    new Set([...before.keys(), ...after.keys()]).forEach(key => {
+        const was = before.get(key);
+        const now = after.get(key);
+        const previousCategory = was?.category ?? NOT_IN_RUN;
+        const currentCategory = now?.category ?? NOT_IN_RUN;
+        if (previousCategory === currentCategory) return;
+
+        const { side, gstin, invoiceNumber } = (now ?? was)!;
+        movements.push({ side, gstin, invoiceNumber, previousCategory, currentCategory });
+    });
+
+    return movements;
+};
+
+/** The movements as export rows with readable column headers. */
+export const movementRows = (movements: RunMovement[]): ReconciliationRecord[] =>
+    movements.map(movement => ({
+        'Side': movement.side,
+        'GSTIN': movement.gstin,
+        'Invoice Number': movement.invoiceNumber,
+        'Previous Category': movement.previousCategory,
+        'Current Category': movement.currentCategory,
+    }));
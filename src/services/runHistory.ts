@@ -0,0 +1,116 @@
+import { ReconciliationResult, StoredRun, Gstr2bType } from '../types';
+
+// --- Configuration ---
+
+const DB_NAME = 'gstReco';
+// Raised whenever the shape of a stored result changes. Runs stored under an older version are
+// discarded on upgrade, as a result that lacks fields added since cannot be shown or compared.
+const DB_VERSION = 2;
+// Run metadata is kept apart from the full results so that listing the history stays cheap.
+const RUNS_STORE = 'runs';
+const RESULTS_STORE = 'results';
+
+interface Stores {
+    runs: IDBObjectStore;
+    results: IDBObjectStore;
+}
+
+// --- Helper Functions ---
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            const upgrade = request.transaction!;
+            if (db.objectStoreNames.contains(RUNS_STORE)) upgrade.objectStore(RUNS_STORE).clear();
+            else db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+            if (db.objectStoreNames.contains(RESULTS_STORE)) upgrade.objectStore(RESULTS_STORE).clear();
+            else db.createObjectStore(RESULTS_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new Error(`Could not open the reconciliation history: ${request.error?.message}`));
+    });
+};
+
+/**
+ * Runs `work` in one transaction over both stores and resolves with the result of the
+ * request it returns once the transaction has committed.
+ */
+const inTransaction = async <T>(mode: IDBTransactionMode, work: (stores: Stores) => IDBRequest<T> | void): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([RUNS_STORE, RESULTS_STORE], mode);
+        const request = work({ runs: transaction.objectStore(RUNS_STORE), results: transaction.objectStore(RESULTS_STORE) });
+        transaction.oncomplete = () => {
+            db.close();
+            resolve(request ? request.result : undefined);
+        };
+        transaction.onerror = transaction.onabort = () => {
+            db.close();
+            reject(new Error(`Could not update the reconciliation history: ${transaction.error?.message}`));
+        };
+    });
+};
+
+// --- Public API ---
+
+/** SHA-256 of a file's contents, hex encoded; identifies re-uploads of the same file. */
+export const hashFile = async (file: File): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const saveRun = async (
+    files: { booksFile: File; gstr2bFile: File },
+    gstr2bType: Gstr2bType,
+    result: ReconciliationResult
+): Promise<StoredRun> => {
+    const [booksFileHash, gstr2bFileHash] = await Promise.all([hashFile(files.booksFile), hashFile(files.gstr2bFile)]);
+    const run: StoredRun = {
+        id: `run-${Date.now()}`,
+        createdAt: new Date().toISOString(),
+        booksFileName: files.booksFile.name,
+        booksFileHash,
+        gstr2bFileName: files.gstr2bFile.name,
+        gstr2bFileHash,
+        gstr2bType,
+        options: result.options,
+        summary: result.summary,
+    };
+    await inTransaction('readwrite', ({ runs, results }) => {
+        runs.put(run);
+        results.put(result, run.id);
+    });
+    return run;
+};
+
+/** All stored runs, newest first. */
+export const listRuns = async (): Promise<StoredRun[]> => {
+    const runs = await inTransaction<StoredRun[]>('readonly', ({ runs }) => runs.getAll());
+    return (runs ?? []).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const loadRunResult = async (id: string): Promise<ReconciliationResult> => {
+    const result = await inTransaction<ReconciliationResult>('readonly', ({ results }) => results.get(id));
+    if (!result) throw new Error('The stored result of this run could not be found.');
+    return result;
+};
+
+/** Replaces the stored result of a run, e.g. after manual overrides, and refreshes its summary. */
+export const updateRunResult = async (id: string, result: ReconciliationResult): Promise<void> => {
+    await inTransaction('readwrite', ({ runs, results }) => {
+        results.put(result, id);
+        const request = runs.get(id);
+        request.onsuccess = () => {
+            if (request.result) runs.put({ ...request.result, summary: result.summary });
+        };
+    });
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+    await inTransaction('readwrite', ({ runs, results }) => {
+        runs.delete(id);
+        results.delete(id);
+    });
+};
@@ -0,0 +1,18 @@
+// Row colours per 'Recon Status', shared by the on-screen preview (Tailwind classes) and the
+// formatted workbook export (ARGB fills with the same Tailwind 50-shade colours).
+export const STATUS_STYLES: Record<string, { rowClass: string; fill: string }> = {
+    'Matched': { rowClass: 'bg-green-50', fill: 'FFF0FDF4' },
+    'Matched – different period': { rowClass: 'bg-lime-50', fill: 'FFF7FEE7' },
+    'Value mismatch': { rowClass: 'bg-orange-50', fill: 'FFFFF7ED' },
+    'Tax head mismatch (IGST vs CGST/SGST)': { rowClass: 'bg-rose-50', fill: 'FFFFF1F2' },
+    'Cess mismatch': { rowClass: 'bg-amber-50', fill: 'FFFFFBEB' },
+    'Matched (Normalized Invoice No.)': { rowClass: 'bg-emerald-50', fill: 'FFECFDF5' },
+    'Partially Matched': { rowClass: 'bg-blue-50', fill: 'FFEFF6FF' },
+    'Group Matched': { rowClass: 'bg-cyan-50', fill: 'FFECFEFF' },
+    'Manually Matched': { rowClass: 'bg-violet-50', fill: 'FFF5F3FF' },
+    'Only in Books': { rowClass: 'bg-red-50', fill: 'FFFEF2F2' },
+    'Only in GSTR-2B': { rowClass: 'bg-yellow-50', fill: 'FFFEFCE8' },
+    'Suspected duplicate': { rowClass: 'bg-fuchsia-50', fill: 'FFFDF4FF' },
+};
+
+export const getRowClass = (status: string): string => STATUS_STYLES[status]?.rowClass ?? 'bg-white';
@@ -0,0 +1,281 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { FollowUpFormat, FollowUpInvoice, ReasonCode, ReconciliationRecord, ReconciliationResult, SupplierFollowUp } from '../types';
+import { GSTR2B_PREFIX, PAIRED_CATEGORIES } from './reconciliationService';
+import { formatInvoiceDate } from './dateUtils';
+import { AMOUNT_FORMAT, downloadBlob, styleHeaderRow, toNumber } from './workbookExport';
+
+// --- Configuration ---
+
+const STORAGE_KEY = 'gstReco.followUpTemplate';
+
+/** Placeholders the letter template may use, with what each one is replaced by. */
+export const FOLLOW_UP_PLACEHOLDERS: { placeholder: string; description: string }[] = [
+    { placeholder: '{{supplierName}}', description: 'Legal name of the supplier' },
+    { placeholder: '{{gstin}}', description: 'GSTIN of the supplier' },
+    { placeholder: '{{date}}', description: "Today's date" },
+    { placeholder: '{{invoiceCount}}', description: 'Number of invoices listed' },
+    { placeholder: '{{missingCount}}', description: 'Invoices not found in GSTR-2B' },
+    { placeholder: '{{mismatchCount}}', description: 'Invoices with value differences' },
+    { placeholder: '{{invoiceList}}', description: 'One line per invoice with the issue and amounts' },
+    { placeholder: '{{totalTaxableValue}}', description: 'Taxable value of the listed invoices as per our books' },
+    { placeholder: '{{totalTax}}', description: 'Tax of the listed invoices as per our books' },
+];
+
+export const DEFAULT_FOLLOW_UP_TEMPLATE = `Date: {{date}}
+
+To,
+{{supplierName}}
+GSTIN: {{gstin}}
+
+Subject: Invoices not reflected correctly in our GSTR-2B
+
+Dear Sir/Madam,
+
+While reconciling our purchase register with GSTR-2B, we found {{invoiceCount}} of your invoices that need your attention: {{missingCount}} are not reflected in GSTR-2B and {{mismatchCount}} are reported with values different from our books.
+
+{{invoiceList}}
+
+Total taxable value: {{totalTaxableValue}}
+Total tax: {{totalTax}}
+
+We request you to file the missing invoices and amend the differing ones in your next GSTR-1/IFF, so that the input tax credit is available to us. Please confirm once done.
+
+Regards,
+Accounts Team`;
+
+// Reason codes of the pairs a supplier is asked to amend, whichever pass paired them, with the
+// issue stated in the letter.
+const MISMATCH_ISSUES: Partial<Record<ReasonCode, string>> = {
+    VALUE_MISMATCH: 'Value mismatch',
+    TAX_HEAD_MISMATCH: 'Tax head mismatch (IGST vs CGST/SGST)',
+    CESS_MISMATCH: 'Cess mismatch',
+};
+
+export const CONTACT_STATUSES = ['Not contacted', 'Emailed', 'Reminder sent', 'Filed / amended', 'No response'];
+
+const MAX_FILE_NAME_LENGTH = 60;
+
+// --- Helper Functions ---
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const TAX_FIELDS = ['integratedTax', 'centralTax', 'stateTax', 'cess'] as const;
+
+const toFollowUpInvoice = (record: ReconciliationRecord, result: ReconciliationResult): FollowUpInvoice => {
+    const { books, gstr2b } = result.columns;
+    const inGstr2b = record['Reason Code'] !== 'ONLY_IN_BOOKS';
+    const gstr2bValue = (header: string | undefined) => toNumber(header ? record[`${GSTR2B_PREFIX}${header}`] : 0);
+    return {
+        invoiceNumber: String(record[books.billNo ?? ''] ?? ''),
+        invoiceDate: formatInvoiceDate(record[books.invoiceDate ?? '']),
+        issue: MISMATCH_ISSUES[record['Reason Code'] as ReasonCode] ?? String(record['Recon Status'] ?? ''),
+        booksTaxableValue: round(toNumber(record[books.taxableValue ?? ''])),
+        booksTax: round(TAX_FIELDS.reduce((sum, field) => sum + toNumber(record[books[field] ?? '']), 0)),
+        gstr2bTaxableValue: inGstr2b ? round(gstr2bValue(gstr2b.taxableValue)) : null,
+        gstr2bTax: inGstr2b ? round(TAX_FIELDS.reduce((sum, field) => sum + gstr2bValue(gstr2b[field]), 0)) : null,
+    };
+};
+
+const describeInvoice = (invoice: FollowUpInvoice): string => {
+    const date = invoice.invoiceDate ? ` dated ${invoice.invoiceDate}` : '';
+    const books = `taxable ${formatRupees(invoice.booksTaxableValue)}, tax ${formatRupees(invoice.booksTax)}`;
+    const gstr2b = invoice.gstr2bTaxableValue === null
+        ? 'not in GSTR-2B'
+        : `GSTR-2B shows taxable ${formatRupees(invoice.gstr2bTaxableValue)}, tax ${formatRupees(invoice.gstr2bTax ?? 0)}`;
+    return `- Invoice ${invoice.invoiceNumber}${date}: ${invoice.issue}. Our books: ${books}; ${gstr2b}.`;
+};
+
+// One file per supplier; the GSTIN keeps names unique, the legal name keeps them readable.
+const fileBaseName = (followUp: SupplierFollowUp): string =>
+    `${followUp.gstin}_${followUp.legalName}`.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, MAX_FILE_NAME_LENGTH) || 'Supplier';
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const printableLetter = (followUp: SupplierFollowUp, letter: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${followUp.legalName} (${followUp.gstin})`)}</title>
+<style>
+body { font-family: Georgia, serif; font-size: 12pt; line-height: 1.5; max-width: 48rem; margin: 2rem auto; white-space: pre-wrap; }
+@media print { body { margin: 0; } }
+</style>
+</head>
+<body>${escapeHtml(letter)}</body>
+</html>
+`;
+
+const supplierWorkbook = (followUp: SupplierFollowUp, letter: string): ExcelJS.Workbook => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    const invoices = workbook.addWorksheet('Invoices');
+    invoices.columns = [
+        { header: 'Invoice Number', key: 'invoiceNumber', width: 20 },
+        { header: 'Invoice Date', key: 'invoiceDate', width: 14 },
+        { header: 'Issue', key: 'issue', width: 36 },
+        { header: 'Books Taxable (₹)', key: 'booksTaxableValue', width: 18, style: { numFmt: AMOUNT_FORMAT } },
+        { header: 'Books Tax (₹)', key: 'booksTax', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+        { header: 'GSTR-2B Taxable (₹)', key: 'gstr2bTaxableValue', width: 20, style: { numFmt: AMOUNT_FORMAT } },
+        { header: 'GSTR-2B Tax (₹)', key: 'gstr2bTax', width: 18, style: { numFmt: AMOUNT_FORMAT } },
+    ];
+    followUp.invoices.forEach(invoice => invoices.addRow(invoice));
+    invoices.addRow({ issue: 'Total', booksTaxableValue: followUp.totalTaxableValue, booksTax: followUp.totalTax }).font = { bold: true };
+    styleHeaderRow(invoices);
+
+    const letterSheet = workbook.addWorksheet('Letter');
+    letterSheet.getColumn(1).width = 110;
+    letter.split('\n').forEach(line => {
+        letterSheet.addRow([line]).getCell(1).alignment = { wrapText: true, vertical: 'top' };
+    });
+    return workbook;
+};
+
+const indexWorkbook = (followUps: SupplierFollowUp[], fileNames: string[]): ExcelJS.Workbook => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+    const sheet = workbook.addWorksheet('Index');
+    sheet.columns = [
+        { header: 'GSTIN', key: 'gstin', width: 18 },
+        { header: 'Legal Name', key: 'legalName', width: 36 },
+        { header: 'Invoices', key: 'invoices', width: 10 },
+        { header: 'Not in GSTR-2B', key: 'missing', width: 15 },
+        { header: 'Value Differences', key: 'mismatched', width: 17 },
+        { header: 'Taxable Value (₹)', key: 'totalTaxableValue', width: 18, style: { numFmt: AMOUNT_FORMAT } },
+        { header: 'Tax (₹)', key: 'totalTax', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+        { header: 'File', key: 'file', width: 40 },
+        { header: 'Contact Status', key: 'contactStatus', width: 18 },
+        { header: 'Contacted On', key: 'contactedOn', width: 14 },
+        { header: 'Remarks', key: 'remarks', width: 40 },
+    ];
+    followUps.forEach((followUp, index) => {
+        const missing = followUp.invoices.filter(invoice => invoice.gstr2bTaxableValue === null).length;
+        const row = sheet.addRow({
+            gstin: followUp.gstin,
+            legalName: followUp.legalName,
+            invoices: followUp.invoices.length,
+            missing,
+            mismatched: followUp.invoices.length - missing,
+            totalTaxableValue: followUp.totalTaxableValue,
+            totalTax: followUp.totalTax,
+            file: fileNames[index],
+            contactStatus: CONTACT_STATUSES[0],
+        });
+        // A drop-down keeps the status column consistent while the team works through the list.
+        row.getCell('contactStatus').dataValidation = {
+            type: 'list',
+            allowBlank: true,
+            formulae: [`"${CONTACT_STATUSES.join(',')}"`],
+        };
+    });
+    styleHeaderRow(sheet);
+    return workbook;
+};
+
+// --- Public API ---
+
+/**
+ * Groups the invoices a supplier has to act on by GSTIN and legal name: book invoices missing
+ * from GSTR-2B and pairs of any match pass (exact, normalized, partial, group or manual) whose
+ * reason code is a value, tax head or cess difference. Suppliers with the largest tax at stake
+ * come first.
+ */
+export const buildSupplierFollowUps = (result: ReconciliationResult): SupplierFollowUp[] => {
+    const { gstin: gstinH, legalName: legalNameH } = result.columns.books;
+    const bySupplier = new Map<string, SupplierFollowUp>();
+
+    const mismatched = PAIRED_CATEGORIES.flatMap(key => result[key])
+        .filter(record => MISMATCH_ISSUES[record['Reason Code'] as ReasonCode]);
+
+    [result.invoicesInBookNotInGstr2b, mismatched].forEach(records => {
+        records.forEach(record => {
+            const gstin = String(record[gstinH ?? ''] ?? '').replace(/\s/g, '').toUpperCase();
+            const legalName = String(record[legalNameH ?? ''] ?? '').trim();
+            const supplierKey = `${gstin}|${legalName.toLowerCase()}`;
+            let followUp = bySupplier.get(supplierKey);
+            if (!followUp) {
+                followUp = { gstin, legalName, invoices: [], totalTaxableValue: 0, totalTax: 0 };
+                bySupplier.set(supplierKey, followUp);
+            }
+            const invoice = toFollowUpInvoice(record, result);
+            followUp.invoices.push(invoice);
+            followUp.totalTaxableValue = round(followUp.totalTaxableValue + invoice.booksTaxableValue);
+            followUp.totalTax = round(followUp.totalTax + invoice.booksTax);
+        });
+    });
+
+    return Array.from(bySupplier.values()).sort((a, b) => b.totalTax - a.totalTax);
+};
+
+/** Fills the placeholders of a letter template for one supplier. Unknown placeholders are left as they are. */
+export const renderFollowUpLetter = (template: string, followUp: SupplierFollowUp, date = new Date()): string => {
+    const missingCount = followUp.invoices.filter(invoice => invoice.gstr2bTaxableValue === null).length;
+    const values: Record<string, string> = {
+        supplierName: followUp.legalName || followUp.gstin,
+        gstin: followUp.gstin,
+        date: date.toLocaleDateString('en-IN'),
+        invoiceCount: String(followUp.invoices.length),
+        missingCount: String(missingCount),
+        mismatchCount: String(followUp.invoices.length - missingCount),
+        invoiceList: followUp.invoices.map(describeInvoice).join('\n'),
+        totalTaxableValue: formatRupees(followUp.totalTaxableValue),
+        totalTax: formatRupees(followUp.totalTax),
+    };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+};
+
+/**
+ * Builds the follow-up pack: one workbook (invoice list and letter) or one printable HTML
+ * letter per supplier, and an index workbook with a contact status column to track replies.
+ */
+export const buildFollowUpZip = async (result: ReconciliationResult, template: string, format: FollowUpFormat): Promise<Blob> => {
+    const followUps = buildSupplierFollowUps(result);
+    if (followUps.length === 0) throw new Error('No supplier has invoices missing from GSTR-2B or with value differences.');
+
+    const zip = new JSZip();
+    const extension = format === 'workbook' ? 'xlsx' : 'html';
+    const usedNames = new Set<string>();
+    const fileNames = followUps.map(followUp => {
+        const base = fileBaseName(followUp);
+        let name = `${base}.${extension}`;
+        for (let n = 2; usedNames.has(name); n++) name = `${base}_${n}.${extension}`;
+        usedNames.add(name);
+        return name;
+    });
+
+    for (const [index, followUp] of followUps.entries()) {
+        const letter = renderFollowUpLetter(template, followUp);
+        const content = format === 'workbook'
+            ? await supplierWorkbook(followUp, letter).xlsx.writeBuffer()
+            : printableLetter(followUp, letter);
+        zip.file(`Suppliers/${fileNames[index]}`, content);
+    }
+    zip.file('Index.xlsx', await indexWorkbook(followUps, fileNames.map(name => `Suppliers/${name}`)).xlsx.writeBuffer());
+
+    return zip.generateAsync({ type: 'blob' });
+};
+
+export const downloadFollowUpZip = async (result: ReconciliationResult, template: string, format: FollowUpFormat, fileName: string) => {
+    downloadBlob(await buildFollowUpZip(result, template, format), `${fileName}.zip`);
+};
+
+export const loadFollowUpTemplate = (): string => {
+    try {
+        return localStorage.getItem(STORAGE_KEY) ?? DEFAULT_FOLLOW_UP_TEMPLATE;
+    } catch (error) {
+        console.error('Error reading the follow-up template:', error);
+        return DEFAULT_FOLLOW_UP_TEMPLATE;
+    }
+};
+
+export const saveFollowUpTemplate = (template: string) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, template);
+    } catch (error) {
+        console.error('Error saving the follow-up template:', error);
+    }
+};
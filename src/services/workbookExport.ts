@@ -0,0 +1,238 @@
+import ExcelJS from 'exceljs';
+import { ReconciliationResult, ReconciliationRecord, ResultCategoryKey, ColumnMapping } from '../types';
+import { STATUS_STYLES } from './statusStyles';
+import { overrideLogRows } from './manualOverrides';
+import { preflightRows } from './preflight';
+import { DUPLICATE_COLUMNS } from './duplicateDetection';
+
+// --- Configuration ---
+
+// Every record category of the result, in the order its sheet appears in the workbook.
+export const RESULT_CATEGORIES: { key: ResultCategoryKey; label: string }[] = [
+    { key: 'finalReport', label: 'Final Reconciliation' },
+    { key: 'matchedRecords', label: 'Matched' },
+    { key: 'differentPeriodRecords', label: 'Matched - Different Period' },
+    { key: 'valueMismatchRecords', label: 'Value Mismatch' },
+    { key: 'taxHeadMismatchRecords', label: 'Tax Head Mismatch' },
+    { key: 'cessMismatchRecords', label: 'Cess Mismatch' },
+    { key: 'normalizedMatchedRecords', label: 'Matched - Normalized No' },
+    { key: 'partiallyMatchedRecords', label: 'Partially Matched' },
+    { key: 'groupMatchedRecords', label: 'Group Matched' },
+    { key: 'manuallyMatchedRecords', label: 'Manually Matched' },
+    { key: 'invoicesInBookNotInGstr2b', label: 'Invoices in Book not in 2B' },
+    { key: 'creditNotesInBookNotInGstr2b', label: 'CN in Book not in 2B' },
+    { key: 'debitNotesInBookNotInGstr2b', label: 'DN in Book not in 2B' },
+    { key: 'invoicesInGstr2bNotInBook', label: 'Invoices in 2B not in Book' },
+    { key: 'creditNotesInGstr2bNotInBook', label: 'CN in 2B not in Book' },
+    { key: 'debitNotesInGstr2bNotInBook', label: 'DN in 2B not in Book' },
+    { key: 'importMatchedRecords', label: 'Imports Matched' },
+    { key: 'importMismatchRecords', label: 'Imports Mismatch' },
+    { key: 'importsInBookNotInGstr2b', label: 'BoE in Book not in 2B' },
+    { key: 'importsInGstr2bNotInBook', label: 'BoE in 2B not in Book' },
+    { key: 'suspectedDuplicateRecords', label: 'Suspected Duplicates' },
+];
+
+export const AMOUNT_FORMAT = '#,##0.00';
+export const HEADER_FILL = 'FFE0E7FF'; // indigo-100
+const AMOUNT_FIELDS: (keyof ColumnMapping)[] = ['taxableValue', 'integratedTax', 'centralTax', 'stateTax', 'cess'];
+
+// --- Helper Functions ---
+
+export const toNumber = (value: any): number => {
+    const parsed = parseFloat(String(value ?? '').replace(/,/g, ''));
+    return isNaN(parsed) ? 0 : parsed;
+};
+
+/** Headers of the amount columns on each side, as they appear in the exported records. */
+const amountHeaders = (result: ReconciliationResult) => {
+    const books = AMOUNT_FIELDS.map(f => result.columns.books[f]).filter((h): h is string => !!h);
+    const gstr2b = AMOUNT_FIELDS.map(f => result.columns.gstr2b[f]).filter((h): h is string => !!h);
+    return { books, gstr2b };
+};
+
+/**
+ * Sums the taxable value and total tax of a set of records for each side. Records that only
+ * exist in GSTR-2B, and GSTR-2B lines among the suspected duplicates, carry the 2B columns
+ * unprefixed; paired records carry them as GSTR2B_*.
+ * Group matches repeat the single side on every member row, so each side of a group is
+ * counted once per distinct invoice.
+ */
+const categoryTotals = (records: ReconciliationRecord[], result: ReconciliationResult) => {
+    const { taxableValue: bookTaxableH } = result.columns.books;
+    const { taxableValue: gstrTaxableH } = result.columns.gstr2b;
+    const bookTaxH = (['integratedTax', 'centralTax', 'stateTax', 'cess'] as const).map(f => result.columns.books[f]).filter((h): h is string => !!h);
+    const gstrTaxH = (['integratedTax', 'centralTax', 'stateTax', 'cess'] as const).map(f => result.columns.gstr2b[f]).filter((h): h is string => !!h);
+
+    const totals = { booksTaxable: 0, booksTax: 0, gstr2bTaxable: 0, gstr2bTax: 0 };
+    const seenGroupMembers = new Set<string>();
+    const firstInGroup = (record: ReconciliationRecord, side: string, billNo: any) => {
+        if (!record['Group ID']) return true;
+        const key = `${record['Group ID']}|${side}|${billNo}`;
+        if (seenGroupMembers.has(key)) return false;
+        seenGroupMembers.add(key);
+        return true;
+    };
+
+    records.forEach(record => {
+        const onlyIn2b = record['Reason Code'] === 'ONLY_IN_GSTR2B' || record[DUPLICATE_COLUMNS.side] === 'GSTR-2B';
+        const prefix = onlyIn2b ? '' : 'GSTR2B_';
+        const countBooks = !onlyIn2b && firstInGroup(record, 'books', record[result.columns.books.billNo ?? '']);
+        const countGstr2b = firstInGroup(record, 'gstr2b', record[`${prefix}${result.columns.gstr2b.billNo ?? ''}`]);
+
+        if (countBooks) {
+            totals.booksTaxable += bookTaxableH ? toNumber(record[bookTaxableH]) : 0;
+            totals.booksTax += bookTaxH.reduce((sum, h) => sum + toNumber(record[h]), 0);
+        }
+        if (countGstr2b) {
+            totals.gstr2bTaxable += gstrTaxableH ? toNumber(record[`${prefix}${gstrTaxableH}`]) : 0;
+            totals.gstr2bTax += gstrTaxH.reduce((sum, h) => sum + toNumber(record[`${prefix}${h}`]), 0);
+        }
+    });
+    return totals;
+};
+
+// Excel forbids []:*?/\ in sheet names and limits them to 31 characters.
+const safeSheetName = (name: string): string => name.replace(/[\[\]:*?\/\\]/g, '-').slice(0, 31);
+
+/** Bold, shaded and frozen first row, as on every sheet the tool exports. */
+export const styleHeaderRow = (sheet: ExcelJS.Worksheet) => {
+    const header = sheet.getRow(1);
+    header.font = { bold: true };
+    header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+};
+
+const addRecordSheet = (workbook: ExcelJS.Workbook, name: string, records: ReconciliationRecord[], amountColumns: Set<string>) => {
+    const sheet = workbook.addWorksheet(safeSheetName(name));
+
+    // Union of keys across all rows; records from different sources do not share one shape.
+    const headers: string[] = [];
+    const seen = new Set<string>();
+    records.forEach(record => Object.keys(record).forEach(key => {
+        if (!seen.has(key)) {
+            seen.add(key);
+            headers.push(key);
+        }
+    }));
+
+    sheet.columns = headers.map(header => ({
+        header,
+        key: header,
+        width: Math.min(40, Math.max(12, header.length + 2)),
+        ...(amountColumns.has(header) ? { style: { numFmt: AMOUNT_FORMAT } } : {}),
+    }));
+
+    records.forEach(record => {
+        const values = Object.fromEntries(headers.map(header => {
+            const value = record[header];
+            // Diff columns hold formatted strings; write every amount as a real number.
+            return [header, amountColumns.has(header) && value !== null && value !== undefined && value !== '' ? toNumber(value) : value];
+        }));
+        const row = sheet.addRow(values);
+        const fill = STATUS_STYLES[record['Recon Status']]?.fill;
+        if (fill) row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fill } };
+    });
+
+    styleHeaderRow(sheet);
+};
+
+const addSummarySheet = (workbook: ExcelJS.Workbook, result: ReconciliationResult) => {
+    const sheet = workbook.addWorksheet('Summary');
+    sheet.columns = [
+        { header: 'Category', key: 'category', width: 34 },
+        { header: 'Records', key: 'records', width: 12 },
+        { header: 'Books Taxable (₹)', key: 'booksTaxable', width: 20, style: { numFmt: AMOUNT_FORMAT } },
+        { header: 'Books Tax (₹)', key: 'booksTax', width: 18, style: { numFmt: AMOUNT_FORMAT } },
+        { header: 'GSTR-2B Taxable (₹)', key: 'gstr2bTaxable', width: 20, style: { numFmt: AMOUNT_FORMAT } },
+        { header: 'GSTR-2B Tax (₹)', key: 'gstr2bTax', width: 18, style: { numFmt: AMOUNT_FORMAT } },
+    ];
+
+    RESULT_CATEGORIES.filter(c => c.key !== 'finalReport').forEach(({ key, label }) => {
+        const records = result[key];
+        sheet.addRow({ category: label, records: records.length, ...categoryTotals(records, result) });
+    });
+    styleHeaderRow(sheet);
+
+    sheet.addRow([]);
+    sheet.addRow(['Summary counts']).font = { bold: true };
+    Object.entries(result.summary).forEach(([key, value]) => {
+        if (typeof value === 'number') sheet.addRow([key, value]);
+    });
+
+    sheet.addRow([]);
+    sheet.addRow(['Input tax credit', 'Claimable (₹)', 'Blocked (₹)']).font = { bold: true };
+    Object.entries(result.summary.itc).forEach(([group, totals]) => {
+        const row = sheet.addRow([group, totals.claimable, totals.blocked]);
+        [2, 3].forEach(column => { row.getCell(column).numFmt = AMOUNT_FORMAT; });
+    });
+
+    if (result.summary.sections) {
+        sheet.addRow([]);
+        sheet.addRow(['Section', 'Matched', 'Mismatched', 'Partially matched', 'Only in Books', 'Only in GSTR-2B', 'ITC claimable (₹)', 'ITC blocked (₹)']).font = { bold: true };
+        result.summary.sections.forEach(({ section, matched, mismatched, partiallyMatched, onlyInBooks, onlyInGstr2b, itc }) => {
+            const row = sheet.addRow([section, matched, mismatched, partiallyMatched, onlyInBooks, onlyInGstr2b, itc.claimable, itc.blocked]);
+            [7, 8].forEach(column => { row.getCell(column).numFmt = AMOUNT_FORMAT; });
+        });
+    }
+
+    sheet.addRow([]);
+    sheet.addRow(['Settings used']).font = { bold: true };
+    Object.entries(result.options.tolerance).forEach(([head, value]) => sheet.addRow([`Tolerance ${head} (₹)`, value]));
+    sheet.addRow(['Percentage tolerance (%)', result.options.percentageTolerance]);
+    sheet.addRow(['Require legal name match', result.options.requireLegalNameMatch ? 'Yes' : 'No']);
+    sheet.addRow(['Consolidate multi-line invoices', result.options.consolidateInvoices ? 'Yes' : 'No']);
+    sheet.addRow(['Leave out identical duplicate lines', result.options.excludeIdenticalCopies ? 'Yes' : 'No']);
+    sheet.addRow(['Recipient GSTIN', result.options.recipientGstin || 'From GSTR-2B']);
+};
+
+// --- Public API ---
+
+/**
+ * Builds the full reconciliation workbook: a Summary sheet with counts and rupee totals, then
+ * one sheet per category with a frozen header row, number formats on amount columns and rows
+ * coloured by status, and the manual override log when there is one.
+ */
+export const buildFullWorkbook = (result: ReconciliationResult): ExcelJS.Workbook => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    const { books, gstr2b } = amountHeaders(result);
+    const amountColumns = new Set<string>([
+        ...books,
+        ...gstr2b,
+        ...gstr2b.map(h => `GSTR2B_${h}`),
+        'Diff Taxable Value (₹)',
+        'Diff Integrated Tax(₹)',
+        'Diff Central Tax(₹)',
+        'Diff State/UT Tax(₹)',
+        'Diff Cess(₹)',
+        'ITC Amount (₹)',
+    ]);
+
+    addSummarySheet(workbook, result);
+    RESULT_CATEGORIES.forEach(({ key, label }) => addRecordSheet(workbook, label, result[key], amountColumns));
+    if (result.overrides.length > 0) addRecordSheet(workbook, 'Override Log', overrideLogRows(result.overrides), new Set());
+    if (result.preflight.length > 0) addRecordSheet(workbook, 'Preflight', preflightRows(result.preflight), new Set());
+    return workbook;
+};
+
+/** Saves a blob through a temporary link, as the browser's download of `fileName`. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking straight after click() can cancel the download before the browser reads the blob.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportFullWorkbook = async (result: ReconciliationResult, fileName: string) => {
+    try {
+        const buffer = await buildFullWorkbook(result).xlsx.writeBuffer();
+        downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${fileName}.xlsx`);
+    } catch (error) {
+        console.error("Error exporting workbook:", error);
+        alert("An error occurred while creating the Excel workbook.");
+    }
+};
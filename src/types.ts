@@ -1,23 +1,378 @@
-export type Gstr2bType = 'B2B' | 'CDNR' | 'Other';
+/**
+ * The GSTR-2B sheet a run reads; 'IMPG' reconciles bills of entry (IMPG and IMPGSEZ) instead of
+ * invoices, and 'All' reads the B2B and CDNR sections together in one run.
+ */
+export type Gstr2bType = 'B2B' | 'CDNR' | 'IMPG' | 'All' | 'Other';
 
 export interface ReconciliationRecord {
     [key: string]: any; // Allows for dynamic properties from Excel files
 }
 
+export type ColumnField =
+    | 'gstin'
+    | 'billNo'
+    | 'legalName'
+    | 'taxableValue'
+    | 'integratedTax'
+    | 'centralTax'
+    | 'stateTax'
+    | 'cess'
+    | 'invoiceDate'
+    | 'returnPeriod'
+    | 'itcAvailability'
+    | 'itcReason'
+    | 'reverseCharge'
+    | 'documentType'
+    | 'originalInvoiceNumber'
+    | 'originalInvoiceDate'
+    | 'portCode'
+    | 'billOfEntryNumber'
+    | 'billOfEntryDate'
+    | 'voucherNumber';
+
+/** Header chosen for each logical field. An empty string means the file has no such column. */
+export type ColumnMapping = Partial<Record<ColumnField, string>>;
+
+export interface ColumnMappings {
+    books?: ColumnMapping;
+    gstr2b?: ColumnMapping;
+}
+
+export interface DetectedColumns {
+    sheetName: string;
+    headerRowNumber: number;
+    headers: string[];
+    guesses: ColumnMapping;
+    /** Whether the header row was found through the built-in aliases. */
+    recognised: boolean;
+}
+
+export interface ColumnProfile {
+    name: string;
+    headerSignature: string;
+    mapping: ColumnMapping;
+    savedAt: string;
+}
+
+export interface ToleranceSettings {
+    taxableValue: number;
+    integratedTax: number;
+    centralTax: number;
+    stateTax: number;
+    cess: number;
+}
+
+export interface ReconciliationOptions {
+    /** Absolute tolerance in rupees per amount head. */
+    tolerance: ToleranceSettings;
+    /** Tolerance as a percentage of the book amount; the larger of the two tolerances applies. */
+    percentageTolerance: number;
+    /** In the partial pass, reject pairs whose legal names differ (when both sides have one). */
+    requireLegalNameMatch: boolean;
+    /** Sum multi-line invoices into one record before matching. */
+    consolidateInvoices: boolean;
+    /** Leave lines identical in every column to another line of the invoice out of consolidation. */
+    excludeIdenticalCopies: boolean;
+    /** Our own GSTIN, whose state decides between IGST and CGST/SGST; empty to take it from the GSTR-2B JSON. */
+    recipientGstin: string;
+}
+
+export type ReconciliationStage = 'parsing' | 'validating' | 'consolidating' | 'exact' | 'normalized' | 'partial' | 'grouping' | 'reporting';
+
+export interface ReconciliationProgress {
+    stage: ReconciliationStage;
+    label: string;
+    /** Overall completion of the run, 0-100. */
+    percent: number;
+}
+
+/** Rupee ITC (IGST + CGST + SGST + cess) split by whether it can be claimed. */
+export interface ItcTotals {
+    claimable: number;
+    blocked: number;
+}
+
+/** Counts and ITC of the records of one GSTR-2B section in an All sections run. */
+export interface SectionSubtotal {
+    section: string;
+    matched: number;
+    mismatched: number;
+    partiallyMatched: number;
+    onlyInBooks: number;
+    onlyInGstr2b: number;
+    itc: ItcTotals;
+}
+
+/** Machine-readable outcome of comparing a record with its counterpart. */
+export type ReasonCode =
+    | 'MATCHED'
+    | 'VALUE_MISMATCH'
+    | 'TAX_HEAD_MISMATCH'
+    | 'CESS_MISMATCH'
+    | 'ONLY_IN_BOOKS'
+    | 'ONLY_IN_GSTR2B';
+
 export interface ReconciliationResult {
     summary: {
         totalInBooks: number;
         totalInGstr2b: number;
+        /**
+         * Pairs of every pass by reason code, a group counting once: amounts agree in the same
+         * period or in different periods, or differ in value, tax head or cess.
+         */
         matched: number;
+        matchedDifferentPeriod: number;
+        valueMismatch: number;
+        taxHeadMismatch: number;
+        cessMismatch: number;
+        booksPeriodEarlier: number;
+        booksPeriodLater: number;
+        /** Pairs by the pass that found them, whatever their reason code. */
+        normalizedMatched: number;
         partiallyMatched: number;
+        /** Number of groups, not rows; each group spans several rows in groupMatchedRecords. */
+        groupMatched: number;
+        manuallyMatched: number;
         onlyInBooks: number;
         onlyInGstr2b: number;
+        reasonCodes: Record<ReasonCode, number>;
+        /** Records whose GSTR-2B 'ITC Availability' is No. */
+        itcNotAvailable: number;
+        /** Records on which the supply attracts reverse charge. */
+        reverseCharge: number;
+        /** Records whose GSTR-2B side was revised by an amendment (B2BA, CDNRA, ...). */
+        amendedInGstr2b: number;
+        /** Lines of either side reported as suspected duplicates, before consolidation. */
+        suspectedDuplicates: number;
+        /** "Only in Books" records with a GSTR-2B GSTIN one character off their own suggested. */
+        gstinSuggestions: number;
+        /** Bills of entry, counted like the invoice categories. */
+        imports: {
+            matched: number;
+            mismatched: number;
+            onlyInBooks: number;
+            onlyInGstr2b: number;
+        };
+        /** Subtotals per section, in runs that route records to sections ('All'). */
+        sections?: SectionSubtotal[];
+        /** Paired categories other than partial matches count as matched; the only-in lists as unmatched. */
+        itc: {
+            matched: ItcTotals;
+            partiallyMatched: ItcTotals;
+            unmatched: ItcTotals;
+            total: ItcTotals;
+        };
     };
     matchedRecords: ReconciliationRecord[];
+    differentPeriodRecords: ReconciliationRecord[];
+    valueMismatchRecords: ReconciliationRecord[];
+    taxHeadMismatchRecords: ReconciliationRecord[];
+    cessMismatchRecords: ReconciliationRecord[];
+    normalizedMatchedRecords: ReconciliationRecord[];
     partiallyMatchedRecords: ReconciliationRecord[];
+    groupMatchedRecords: ReconciliationRecord[];
+    /** Pairs forced by the user after the run. */
+    manuallyMatchedRecords: ReconciliationRecord[];
     invoicesInBookNotInGstr2b: ReconciliationRecord[];
     creditNotesInBookNotInGstr2b: ReconciliationRecord[];
+    debitNotesInBookNotInGstr2b: ReconciliationRecord[];
     invoicesInGstr2bNotInBook: ReconciliationRecord[];
     creditNotesInGstr2bNotInBook: ReconciliationRecord[];
+    debitNotesInGstr2bNotInBook: ReconciliationRecord[];
+    /** Bills of entry paired on port code, number and date, with IGST and cess in agreement. */
+    importMatchedRecords: ReconciliationRecord[];
+    /** Paired bills of entry whose IGST or cess differ. */
+    importMismatchRecords: ReconciliationRecord[];
+    importsInBookNotInGstr2b: ReconciliationRecord[];
+    importsInGstr2bNotInBook: ReconciliationRecord[];
+    /**
+     * Original lines of invoices that look entered twice, from both sides. They repeat invoices
+     * reported in the other categories, so they are not part of the final report.
+     */
+    suspectedDuplicateRecords: ReconciliationRecord[];
     finalReport: ReconciliationRecord[];
+    options: ReconciliationOptions;
+    /** Headers the run resolved for each logical field, per side. */
+    columns: {
+        books: ColumnMapping;
+        gstr2b: ColumnMapping;
+    };
+    source: ReconciliationSource;
+    /** Manual matches and unmatches applied to this result, oldest first. */
+    overrides: OverrideLogEntry[];
+    /** Rows of either file that were dropped or read with doubtful values, found before matching. */
+    preflight: PreflightIssue[];
+}
+
+/** How the GSTR-2B file of a run was read; decides how unmatched 2B records are categorised. */
+export interface ReconciliationSource {
+    gstr2bType: Gstr2bType;
+    gstr2bIsJson: boolean;
+}
+
+export type OverrideAction = 'Manual match' | 'Manual unmatch';
+
+export interface OverrideLogEntry {
+    /** ISO timestamp of the change. */
+    timestamp: string;
+    action: OverrideAction;
+    gstin: string;
+    booksInvoices: string;
+    gstr2bInvoices: string;
+    previousStatus: string;
+    newStatus: string;
+    remark: string;
+}
+
+export type PreflightIssueKind = 'droppedRow' | 'unreadableAmount' | 'invalidGstin' | 'implausibleTax' | 'interstateTaxHead';
+
+export interface PreflightIssue {
+    kind: PreflightIssueKind;
+    side: 'Books' | 'GSTR-2B';
+    /** Sheet or GSTR-2B section the row was read from, when the file has several. */
+    sheet: string;
+    /** Row number in the source sheet; null for the portal JSON. */
+    row: number | null;
+    gstin: string;
+    invoiceNumber: string;
+    /** Column the issue was found in, when it concerns one column. */
+    column: string;
+    value: string;
+    message: string;
+}
+
+/** A reconciliation run kept in the local history. The full result is stored separately. */
+export interface StoredRun {
+    id: string;
+    /** ISO timestamp of the run. */
+    createdAt: string;
+    booksFileName: string;
+    /** SHA-256 of the file contents, hex encoded. */
+    booksFileHash: string;
+    gstr2bFileName: string;
+    gstr2bFileHash: string;
+    gstr2bType: Gstr2bType;
+    options: ReconciliationOptions;
+    summary: ReconciliationResult['summary'];
+}
+
+/** An invoice whose result category differs between two runs. */
+export interface RunMovement {
+    side: 'Books' | 'GSTR-2B';
+    gstin: string;
+    invoiceNumber: string;
+    /** Category label, or NOT_IN_RUN when the invoice was not part of that run. */
+    previousCategory: string;
+    currentCategory: string;
+}
+
+/** Keys of ReconciliationResult that hold a list of records (the override log and preflight issues are not). */
+export type ResultCategoryKey = Exclude<{
+    [K in keyof ReconciliationResult]: ReconciliationResult[K] extends ReconciliationRecord[] ? K : never
+}[keyof ReconciliationResult], 'overrides' | 'preflight'>;
+
+/** The record categories of a result, without the combined final report. */
+export type ResultCategories = Pick<ReconciliationResult, Exclude<ResultCategoryKey, 'finalReport'>>;
+
+export interface ReconciliationWorkerRequest {
+    booksFile: File;
+    gstr2bFile: File;
+    gstr2bType: Gstr2bType;
+    options: ReconciliationOptions;
+    columnMappings: ColumnMappings;
+}
+
+export type ReconciliationWorkerMessage =
+    | { type: 'progress'; progress: ReconciliationProgress }
+    | { type: 'result'; result: ReconciliationResult }
+    | { type: 'error'; message: string };
+
+/** A filter on one column of the results grid. */
+export type GridColumnFilter =
+    | { kind: 'text'; value: string }
+    | { kind: 'range'; min?: number; max?: number }
+    | { kind: 'values'; values: string[] };
+
+export interface GridSort {
+    column: string;
+    direction: 'asc' | 'desc';
+}
+
+/** What the results grid shows: free-text search, per-column filters and sort order. */
+export interface GridQuery {
+    search: string;
+    filters: Record<string, GridColumnFilter>;
+    sort: GridSort | null;
+}
+
+/** One invoice a supplier is asked to file or amend. */
+export interface FollowUpInvoice {
+    invoiceNumber: string;
+    invoiceDate: string;
+    /** Recon status of the invoice, e.g. 'Only in Books' or 'Value mismatch'. */
+    issue: string;
+    booksTaxableValue: number;
+    booksTax: number;
+    /** Null when the invoice is not in GSTR-2B at all. */
+    gstr2bTaxableValue: number | null;
+    gstr2bTax: number | null;
+}
+
+/** The follow-up for one supplier: every open invoice under one GSTIN and legal name. */
+export interface SupplierFollowUp {
+    gstin: string;
+    legalName: string;
+    invoices: FollowUpInvoice[];
+    totalTaxableValue: number;
+    totalTax: number;
+}
+
+export type FollowUpFormat = 'workbook' | 'letter';
+
+/** How the ITC of a group of records is reported in GSTR-3B. */
+export type ItcTreatment = 'claim' | 'claimAndReverse' | 'defer';
+
+/** Which side's amounts a paired record claims: GSTR-2B, the books, or the lower of the two per head. */
+export type ItcAmountBasis = 'gstr2b' | 'books' | 'lower';
+
+export interface Gstr3bPolicy {
+    /** Matched, different period, normalized, group and manual matches. */
+    matched: ItcTreatment;
+    /** Value, tax head and cess mismatches. */
+    mismatched: ItcTreatment;
+    partiallyMatched: ItcTreatment;
+    onlyInBooks: ItcTreatment;
+    onlyInGstr2b: ItcTreatment;
+    amountBasis: ItcAmountBasis;
+}
+
+export interface TaxHeadAmounts {
+    integratedTax: number;
+    centralTax: number;
+    stateTax: number;
+    cess: number;
+}
+
+/** One record (or one group match) behind a Table 4 figure. */
+export interface Gstr3bContribution {
+    gstin: string;
+    invoiceNumber: string;
+    status: string;
+    amounts: TaxHeadAmounts;
+}
+
+export type Gstr3bRowId = '4A1' | '4A2' | '4A3' | '4A4' | '4A5' | '4B1' | '4B2' | '4C' | '4D1' | '4D2';
+
+export interface Gstr3bRow {
+    id: Gstr3bRowId;
+    label: string;
+    amounts: TaxHeadAmounts;
+    contributions: Gstr3bContribution[];
+}
+
+export interface Gstr3bItcComputation {
+    policy: Gstr3bPolicy;
+    rows: Gstr3bRow[];
+    /** ITC held back under the policy; not reported in this return. */
+    deferred: Omit<Gstr3bRow, 'id'>;
 }
@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// Builds the Node entry points: the headless command-line tool (src/cli) and the REST API
+// mounted by server.js (src/server). Dependencies stay external and are resolved from
+// node_modules at run time.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      input: {
+        'gst-reco': path.resolve(__dirname, './src/cli/gstReco.ts'),
+        'api': path.resolve(__dirname, './src/server/reconcileApi.ts')
+      },
+      output: {
+        entryFileNames: '[name].js',
+        banner: chunk => chunk.name === 'gst-reco' ? '#!/usr/bin/env node' : ''
+      }
+    }
+  }
+})
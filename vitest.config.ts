@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests of the services, run in Node. Kept apart from vite.config.ts, whose root is the
+// app's ./public folder.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+})